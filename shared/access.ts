@@ -0,0 +1,8 @@
+import type { Role } from './types';
+// Each role can do everything the roles before it can
+export const ROLES: Role[] = ['viewer', 'commenter', 'editor', 'owner'];
+// Roles a share link can grant; ownership is never shared
+export const SHARE_ROLES = ['viewer', 'commenter', 'editor'] as const satisfies readonly Role[];
+export function hasRole(role: Role | null | undefined, minRole: Role): boolean {
+  return !!role && ROLES.indexOf(role) >= ROLES.indexOf(minRole);
+}
@@ -0,0 +1,61 @@
+import type { DrawingElement, Stamp } from './types';
+// Merge rules shared by the client and the worker so every replica resolves concurrent edits identically.
+// --- Lamport Stamps ---
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.replicaId < b.replicaId ? -1 : a.replicaId > b.replicaId ? 1 : 0;
+}
+// Bookkeeping fields are never taken from an update
+const UNMERGEABLE_KEYS = new Set(['id', 'type', 'stamps']);
+// Per-property last-writer-wins: keeps the updated properties whose stamp beats the one stored for that property.
+// Unstamped updates (legacy ops, local gesture previews) always apply and leave the stored stamps alone.
+export function resolveUpdate(el: DrawingElement, updates: Partial<DrawingElement>, stamp?: Stamp): { updates: Record<string, unknown>; stamps?: Record<string, Stamp> } {
+  const winning: Record<string, unknown> = {};
+  const stamps: Record<string, Stamp> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    if (UNMERGEABLE_KEYS.has(key)) continue;
+    const current = el.stamps?.[key];
+    if (stamp && current && compareStamps(stamp, current) <= 0) continue;
+    winning[key] = value;
+    if (stamp) stamps[key] = stamp;
+  }
+  return { updates: winning, stamps: stamp ? stamps : undefined };
+}
+// --- Fractional Indexing ---
+// Z-order keys are strings compared lexicographically; a key can always be generated between two others,
+// so moving one element touches only that element. Keys never end in the lowest digit, which keeps that true.
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    let n = 0;
+    while ((a[n] || '0') === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+export function generateKeyBetween(a: string | null, b: string | null): string {
+  if (a !== null && b !== null && a >= b) throw new Error(`Invalid key range: ${a} >= ${b}`);
+  return midpoint(a ?? '', b);
+}
+export function generateNKeysBetween(a: string | null, b: string | null, n: number): string[] {
+  const keys: string[] = [];
+  let previous = a;
+  for (let i = 0; i < n; i++) {
+    previous = generateKeyBetween(previous, b);
+    keys.push(previous);
+  }
+  return keys;
+}
+// Elements without a key (created before fractional indexing) stay below keyed ones in their stored order;
+// equal keys from concurrent inserts break on id
+export function compareElementOrder(a: DrawingElement, b: DrawingElement): number {
+  const ia = a.index ?? '';
+  const ib = b.index ?? '';
+  if (ia !== ib) return ia < ib ? -1 : 1;
+  if (!a.index) return 0;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
@@ -0,0 +1,110 @@
+import type { DrawingElement, Point, LinearElement, ArrowElement, BindableElement, PointBinding } from './types';
+// Element geometry the op reducer needs on both the client and the worker (bound arrows are re-routed while ops apply).
+export function getAbsolutePoints(el: { x: number; y: number; points: Point[] }): Point[] {
+  return el.points.map(p => ({ x: el.x + p.x, y: el.y + p.y }));
+}
+// Recomputes the bounding box for a set of absolute points, storing the points relative to it
+export function getLinearGeometry(absolutePoints: Point[]): Pick<LinearElement, 'x' | 'y' | 'width' | 'height' | 'points'> {
+  const xs = absolutePoints.map(p => p.x);
+  const ys = absolutePoints.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+    points: absolutePoints.map(p => ({ x: p.x - minX, y: p.y - minY })),
+  };
+}
+export function rotatePoint(point: Point, center: Point, angle: number): Point {
+  const rad = angle * (Math.PI / 180);
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+}
+// --- Arrow Binding ---
+const BINDING_GAP = 4;
+export function isBindableElement(el: DrawingElement): el is BindableElement {
+  return el.type === 'rectangle' || el.type === 'ellipse' || el.type === 'text';
+}
+export function getCenter(el: DrawingElement): Point {
+  return { x: el.x + el.width / 2, y: el.y + el.height / 2 };
+}
+export function getFocusPoint(target: DrawingElement, focus: Point): Point {
+  return rotatePoint({ x: target.x + focus.x * target.width, y: target.y + focus.y * target.height }, getCenter(target), target.angle);
+}
+// Parameter along from->to where the segment enters the target's outline, or null if it never does
+function getOutlineEntry(target: BindableElement, from: Point, to: Point): number | null {
+  const center = getCenter(target);
+  const a = rotatePoint(from, center, -target.angle);
+  const b = rotatePoint(to, center, -target.angle);
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  if (target.type === 'ellipse') {
+    const rx = target.width / 2;
+    const ry = target.height / 2;
+    if (rx === 0 || ry === 0) return null;
+    const ax = (a.x - center.x) / rx;
+    const ay = (a.y - center.y) / ry;
+    const qa = (dx / rx) ** 2 + (dy / ry) ** 2;
+    const qb = 2 * (ax * dx / rx + ay * dy / ry);
+    const qc = ax ** 2 + ay ** 2 - 1;
+    const discriminant = qb ** 2 - 4 * qa * qc;
+    if (qc <= 0 || qa === 0 || discriminant < 0) return null;
+    const t = (-qb - Math.sqrt(discriminant)) / (2 * qa);
+    return t >= 0 && t <= 1 ? t : null;
+  }
+  // Liang-Barsky clipping against the unrotated box
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [[-dx, a.x - target.x], [dx, target.x + target.width - a.x], [-dy, a.y - target.y], [dy, target.y + target.height - a.y]];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return null;
+      continue;
+    }
+    const r = q / p;
+    if (p < 0) {
+      if (r > t1) return null;
+      t0 = Math.max(t0, r);
+    } else {
+      if (r < t0) return null;
+      t1 = Math.min(t1, r);
+    }
+  }
+  return t0 > 0 ? t0 : null;
+}
+// Point on the target's outline (minus a small gap) on the way from `adjacent` towards the binding focus
+export function getBoundEndpoint(target: BindableElement, focus: Point, adjacent: Point): Point {
+  const focusPoint = getFocusPoint(target, focus);
+  const t = getOutlineEntry(target, adjacent, focusPoint);
+  const length = Math.hypot(focusPoint.x - adjacent.x, focusPoint.y - adjacent.y);
+  if (t === null || length === 0) return focusPoint;
+  const gapT = Math.max(0, t - BINDING_GAP / length);
+  return { x: adjacent.x + (focusPoint.x - adjacent.x) * gapT, y: adjacent.y + (focusPoint.y - adjacent.y) * gapT };
+}
+// Re-derives the bound endpoints of an arrow from the current position of its targets
+export function getBoundArrowGeometry(arrow: ArrowElement, elements: DrawingElement[]): Pick<ArrowElement, 'x' | 'y' | 'width' | 'height' | 'points'> | null {
+  const resolve = (binding?: PointBinding | null) => {
+    const target = binding ? elements.find(e => e.id === binding.elementId) : undefined;
+    return binding && target && isBindableElement(target) ? { target, focus: binding.focus } : null;
+  };
+  const start = resolve(arrow.startBinding);
+  const end = resolve(arrow.endBinding);
+  if (!start && !end) return null;
+  const points = getAbsolutePoints(arrow);
+  if (points.length < 2) return null;
+  const last = points.length - 1;
+  if (start) {
+    const adjacent = last === 1 && end ? getFocusPoint(end.target, end.focus) : points[1];
+    points[0] = getBoundEndpoint(start.target, start.focus, adjacent);
+  }
+  if (end) {
+    const adjacent = last === 1 && start ? getFocusPoint(start.target, start.focus) : points[last - 1];
+    points[last] = getBoundEndpoint(end.target, end.focus, adjacent);
+  }
+  return getLinearGeometry(points);
+}
@@ -0,0 +1,84 @@
+import { produce } from 'immer';
+import type { DrawingElement, Op, RejectedOp } from './types';
+import { OpSchema, REMOVABLE_KEYS } from './schema';
+import { resolveUpdate, compareElementOrder } from './crdt';
+import { getBoundArrowGeometry } from './geometry';
+// The one op reducer: the client folds its op log with it and the worker builds the stored `elements` snapshot with it,
+// so both always agree on the scene. Ops that are malformed or target a missing element are skipped and reported.
+// Keeps arrows attached to `elementId` (or the arrow itself) in sync after it changes, and detaches them when it is deleted.
+// Only unstamped ops (legacy ops, local gesture previews) do this: re-routed geometry depends on what has been applied
+// so far, so stamped ops are merged strictly property by property and carry the arrows they move as updates of their own
+// (stampLocalOps in src/lib/drawing.ts). That keeps the scene independent of the order ops arrive in.
+function rerouteBoundArrows(draft: DrawingElement[], elementId: string) {
+  for (const el of draft) {
+    if (el.type !== 'arrow') continue;
+    if (el.id === elementId || el.startBinding?.elementId === elementId || el.endBinding?.elementId === elementId) {
+      const geometry = getBoundArrowGeometry(el, draft);
+      if (geometry) Object.assign(el, geometry);
+    }
+  }
+}
+function unbindArrowsFrom(draft: DrawingElement[], elementId: string) {
+  for (const el of draft) {
+    if (el.type !== 'arrow') continue;
+    if (el.startBinding?.elementId === elementId) el.startBinding = null;
+    if (el.endBinding?.elementId === elementId) el.endBinding = null;
+  }
+}
+function applyOpToDraft(draft: DrawingElement[], op: Op, rejected: RejectedOp[]): void {
+  const reject = (reason: string) => { rejected.push({ opId: op.id, reason }); };
+  switch (op.type) {
+    case 'add': {
+      const el = op.data as DrawingElement;
+      if (draft.some(e => e.id === el.id)) return reject(`Element ${el.id} already exists`);
+      draft.push(el);
+      draft.sort(compareElementOrder);
+      break;
+    }
+    case 'update': {
+      const el = draft.find(e => e.id === op.elementId);
+      if (!el) return reject(`Element ${op.elementId} not found`);
+      const { updates, stamps } = resolveUpdate(el, op.data as Partial<DrawingElement>, op.stamp);
+      for (const key in updates) {
+        if (updates[key] === null && REMOVABLE_KEYS.has(key)) delete (el as any)[key];
+        else (el as any)[key] = updates[key];
+      }
+      if (stamps && Object.keys(stamps).length > 0) el.stamps = { ...el.stamps, ...stamps };
+      if ('index' in updates) draft.sort(compareElementOrder);
+      // `isEditing` only belongs on text elements
+      if (el.type !== 'text' && 'isEditing' in el) delete (el as any).isEditing;
+      if (!op.stamp) rerouteBoundArrows(draft, el.id);
+      break;
+    }
+    case 'delete': {
+      const idx = draft.findIndex(e => e.id === op.elementId);
+      if (idx === -1) return reject(`Element ${op.elementId} not found`);
+      draft.splice(idx, 1);
+      if (!op.stamp) unbindArrowsFrom(draft, op.elementId!);
+      break;
+    }
+    case 'reorder':
+      draft.splice(0, draft.length, ...(op.data as DrawingElement[]));
+      break;
+    case 'batch':
+      op.ops?.forEach(inner => applyOpToDraft(draft, inner.stamp ? inner : { ...inner, stamp: op.stamp }, rejected));
+      break;
+  }
+}
+export function reduceOps(ops: Op[], initialElements: DrawingElement[] = []): { elements: DrawingElement[]; rejected: RejectedOp[] } {
+  const rejected: RejectedOp[] = [];
+  const elements = produce(initialElements, draft => {
+    for (const op of ops) {
+      const parsed = OpSchema.safeParse(op);
+      if (!parsed.success) {
+        rejected.push({ opId: typeof op?.id === 'string' ? op.id : '', reason: `Invalid op: ${parsed.error.issues.map(issue => `${issue.path.join('.') || 'op'}: ${issue.message}`).join('; ')}` });
+        continue;
+      }
+      applyOpToDraft(draft as DrawingElement[], parsed.data, rejected);
+    }
+  });
+  return { elements, rejected };
+}
+export function applyOpsToElements(ops: Op[], initialElements: DrawingElement[] = []): DrawingElement[] {
+  return reduceOps(ops, initialElements).elements;
+}
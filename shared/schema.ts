@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import type { DrawingElement, Op } from './types';
+// Runtime shapes of everything that travels in an op, so the client and the worker accept exactly the same payloads
+export const PointSchema = z.object({ x: z.number(), y: z.number() });
+export const StampSchema = z.object({ clock: z.number(), replicaId: z.string() });
+const ArrowheadSchema = z.enum(['none', 'triangle', 'bar', 'dot']);
+const StrokeStyleSchema = z.enum(['solid', 'dashed', 'dotted']);
+const FillStyleSchema = z.enum(['none', 'solid', 'hachure', 'cross-hatch', 'zigzag']);
+const PointBindingSchema = z.object({ elementId: z.string(), focus: PointSchema });
+const baseShape = {
+  id: z.string().min(1),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  angle: z.number(),
+  strokeColor: z.string(),
+  strokeWidth: z.number(),
+  opacity: z.number(),
+  zIndex: z.number().optional(),
+  index: z.string().optional(),
+  stamps: z.record(z.string(), StampSchema).optional(),
+  roughness: z.number().optional(),
+  seed: z.number().optional(),
+};
+const shapeFields = {
+  fillColor: z.string(),
+  fillStyle: FillStyleSchema.optional(),
+  strokeStyle: StrokeStyleSchema,
+};
+const linearFields = {
+  // Lines and arrows need both endpoints; bindings and hit-testing index the first and last point
+  points: z.array(PointSchema).min(2),
+  startArrowhead: ArrowheadSchema.optional(),
+  endArrowhead: ArrowheadSchema.optional(),
+};
+const bindingFields = {
+  startBinding: PointBindingSchema.nullable().optional(),
+  endBinding: PointBindingSchema.nullable().optional(),
+};
+const textFields = {
+  text: z.string(),
+  fontSize: z.number(),
+  fontFamily: z.string(),
+  isEditing: z.boolean().optional(),
+};
+export const DrawingElementSchema: z.ZodType<DrawingElement> = z.discriminatedUnion('type', [
+  z.object({ ...baseShape, type: z.literal('stroke'), points: z.array(PointSchema) }),
+  z.object({ ...baseShape, ...shapeFields, type: z.literal('rectangle'), roundness: z.number().optional() }),
+  z.object({ ...baseShape, ...shapeFields, type: z.literal('ellipse') }),
+  z.object({ ...baseShape, ...linearFields, type: z.literal('line') }),
+  z.object({ ...baseShape, ...linearFields, ...bindingFields, type: z.literal('arrow') }),
+  z.object({ ...baseShape, ...textFields, type: z.literal('text') }),
+]);
+// Optional properties an update can take away again. JSON has no `undefined`, so `null` is the removal tombstone;
+// bindings are left out since `null` is already their "unbound" value.
+export const REMOVABLE_KEYS = new Set(['zIndex', 'index', 'roughness', 'seed', 'fillStyle', 'startArrowhead', 'endArrowhead', 'isEditing', 'roundness']);
+const removable = <T extends z.ZodType>(schema: T) => schema.nullable().optional();
+// Any property of any element type except its identity; which ones apply is up to the element being updated
+export const ElementUpdateSchema = z.object({
+  ...baseShape,
+  ...shapeFields,
+  ...linearFields,
+  ...bindingFields,
+  ...textFields,
+  zIndex: removable(z.number()),
+  index: removable(z.string()),
+  roughness: removable(z.number()),
+  seed: removable(z.number()),
+  fillStyle: removable(FillStyleSchema),
+  startArrowhead: removable(ArrowheadSchema),
+  endArrowhead: removable(ArrowheadSchema),
+  isEditing: removable(z.boolean()),
+  roundness: removable(z.number()),
+}).omit({ id: true, stamps: true }).partial();
+// --- Sync Limits ---
+// Per-request limits of POST /api/drawings/:id/ops, shared so clients can split what they send to fit
+export const MAX_BODY_BYTES = 2 * 1024 * 1024;
+export const MAX_OPS_PER_REQUEST = 500;
+// A single op or element; a long freehand stroke is a few tens of KB. Larger ops are refused one by one, not stored.
+export const MAX_OP_BYTES = 256 * 1024;
+const opBase = {
+  id: z.string().min(1),
+  ts: z.number(),
+  stamp: StampSchema.optional(),
+  seq: z.number().int().positive().optional(),
+};
+export const OpSchema: z.ZodType<Op> = z.discriminatedUnion('type', [
+  z.object({ ...opBase, type: z.literal('add'), elementId: z.string().optional(), data: DrawingElementSchema }),
+  z.object({ ...opBase, type: z.literal('update'), elementId: z.string(), data: ElementUpdateSchema }),
+  z.object({ ...opBase, type: z.literal('delete'), elementId: z.string() }),
+  z.object({ ...opBase, type: z.literal('reorder'), data: z.array(DrawingElementSchema) }),
+  z.object({ ...opBase, type: z.literal('batch'), get ops() { return z.array(OpSchema); } }),
+]);
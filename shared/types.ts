@@ -2,11 +2,27 @@ export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  // Set on failures so clients can tell kinds of errors apart without parsing `error`
+  code?: ApiErrorCode;
+  // Which fields failed validation, for `code: 'validation'`
+  issues?: ApiIssue[];
+}
+export type ApiErrorCode = 'validation' | 'unauthorized' | 'forbidden' | 'not_found' | 'conflict' | 'payload_too_large' | 'internal';
+export interface ApiIssue {
+  path: string;
+  message: string;
 }
 // Minimal real-world chat example types (shared by frontend and worker)
 export interface User {
   id: string;
   name: string;
+  // Sign-in name of a local account; seeded demo users have none
+  username?: string;
+}
+export interface AuthSession {
+  token: string;
+  expiresAt: number;
+  user: User;
 }
 export interface Chat {
   id: string;
@@ -22,10 +38,19 @@ export interface ChatMessage {
 // --- LeverageCanvas Drawing Types ---
 export type Tool = 'select' | 'pen' | 'rectangle' | 'ellipse' | 'line' | 'arrow' | 'text' | 'eraser' | 'hand';
 export type ElementType = 'stroke' | 'rectangle' | 'ellipse' | 'line' | 'arrow' | 'text';
+// Lamport timestamp; equal clocks break ties on replicaId so every replica picks the same winner
+export interface Stamp {
+  clock: number;
+  replicaId: string;
+}
 export interface Point {
   x: number;
   y: number;
 }
+export type Arrowhead = 'none' | 'triangle' | 'bar' | 'dot';
+export type StrokeStyle = 'solid' | 'dashed' | 'dotted';
+// 'none' leaves the shape unfilled; the pattern styles are drawn as strokes in `fillColor`
+export type FillStyle = 'none' | 'solid' | 'hachure' | 'cross-hatch' | 'zigzag';
 export interface BaseElement {
   id: string;
   type: ElementType;
@@ -38,6 +63,13 @@ export interface BaseElement {
   strokeWidth: number;
   opacity: number;
   zIndex?: number;
+  // Fractional z-order key (see shared/crdt.ts); elements render in ascending key order
+  index?: string;
+  // Stamp of the op that last won each property, for per-property last-writer-wins merging
+  stamps?: Record<string, Stamp>;
+  // Hand-drawn rendering: 0 draws crisp geometry; the seed keeps the sketch identical for every viewer
+  roughness?: number;
+  seed?: number;
 }
 export interface StrokeElement extends BaseElement {
   type: 'stroke';
@@ -46,20 +78,36 @@ export interface StrokeElement extends BaseElement {
 export interface RectangleElement extends BaseElement {
   type: 'rectangle';
   fillColor: string;
-  strokeStyle: 'solid' | 'dashed' | 'dotted';
+  fillStyle?: FillStyle;
+  strokeStyle: StrokeStyle;
+  // Corner radius in px
+  roundness?: number;
 }
 export interface EllipseElement extends BaseElement {
   type: 'ellipse';
   fillColor: string;
-  strokeStyle: 'solid' | 'dashed' | 'dotted';
+  fillStyle?: FillStyle;
+  strokeStyle: StrokeStyle;
 }
 export interface LineElement extends BaseElement {
   type: 'line';
-  points: [Point, Point];
+  points: Point[];
+  startArrowhead?: Arrowhead;
+  endArrowhead?: Arrowhead;
+}
+// Attaches an arrow endpoint to another element. `focus` is the point the arrow aims at,
+// normalised to the target's unrotated box (0..1 on each axis) so it follows moves, resizes and rotations.
+export interface PointBinding {
+  elementId: string;
+  focus: Point;
 }
 export interface ArrowElement extends BaseElement {
   type: 'arrow';
-  points: [Point, Point];
+  points: Point[];
+  startArrowhead?: Arrowhead;
+  endArrowhead?: Arrowhead;
+  startBinding?: PointBinding | null;
+  endBinding?: PointBinding | null;
 }
 export interface TextElement extends BaseElement {
   type: 'text';
@@ -69,30 +117,124 @@ export interface TextElement extends BaseElement {
   isEditing?: boolean;
 }
 export type DrawingElement = StrokeElement | RectangleElement | EllipseElement | LineElement | ArrowElement | TextElement;
+export type LinearElement = LineElement | ArrowElement;
+export type BindableElement = RectangleElement | EllipseElement | TextElement;
+export type ShapeElement = RectangleElement | EllipseElement;
+// Style settings the toolbar applies to newly created elements
+export interface ElementStyleOptions {
+  color: string;
+  strokeWidth: number;
+  opacity: number;
+  roughness: number;
+  strokeStyle: StrokeStyle;
+  fillColor: string;
+  fillStyle: FillStyle;
+  roundness: number;
+  startArrowhead?: Arrowhead;
+  endArrowhead?: Arrowhead;
+  fontSize: number;
+  fontFamily: string;
+}
 // --- Collaboration & History Types ---
+// The properties an 'update' op sets; `null` removes an optional property (see REMOVABLE_KEYS in shared/schema.ts)
+type NullableProperties<T> = { [K in keyof T]?: T[K] | null };
+export type ElementUpdate = NullableProperties<DrawingElement>;
 export interface Op {
   id: string;
-  type: 'add' | 'update' | 'delete' | 'reorder';
+  // 'batch' applies its nested `ops` as one unit (one gesture, one undo step, one synced op).
+  // 'reorder' is only kept to replay old logs; z-order changes are now `index` updates.
+  type: 'add' | 'update' | 'delete' | 'reorder' | 'batch';
   elementId?: string;
-  data?: Partial<DrawingElement> | DrawingElement | DrawingElement[];
+  data?: ElementUpdate | DrawingElement | DrawingElement[];
+  ops?: Op[];
   ts: number;
+  stamp?: Stamp;
+  // Position in the drawing's op log, assigned by the server (1-based, gap-free); absent until stored
+  seq?: number;
 };
-export type RotationDelta = number;
-export interface TransformedOp extends Op {
-  originalId?: string;
-  resolvedConflicts?: number;
+export interface AppendOpsResult {
+  // Inclusive range assigned to newly stored ops; fromSeq > toSeq when every op was a duplicate
+  fromSeq: number;
+  toSeq: number;
+  // Sequence number of every submitted op, including duplicates stored by an earlier request
+  seqs: Record<string, number>;
+  // Newly stored ops the reducer skipped (see shared/reducer.ts); they stay in the log so every replica skips them too
+  rejected: RejectedOp[];
+}
+export interface OpsSince {
+  ops: Op[];
+  // The ops after `since` were compacted away; reload the drawing and continue from its opVersion
+  reload: boolean;
 }
+export interface RejectedOp {
+  opId: string;
+  reason: string;
+  // Refused without being stored (over MAX_OP_BYTES or not a valid op): it has no seq and never comes back, so senders drop it
+  dropped?: boolean;
+}
+export type RotationDelta = number;
 export interface Drawing {
   id: string;
   title: string;
   elements: DrawingElement[];
   updatedAt: number;
+  // Only drawings stored before the op log moved to chunks carry ops here; they are already folded into `elements`
   ops: Op[];
+  // Seq of the last op folded into `elements`
   opVersion: number;
+  // Ops up to this seq have been compacted away; clients behind it must reload the snapshot
+  compactedSeq?: number;
+  checkpoints?: Checkpoint[];
+  // Drawings created before ownership have no owner and stay open to every user as editors
+  ownerId?: string;
+  // Roles granted to other users, by user id; only sent to the owner
+  access?: Record<string, Role>;
+  shareLinks?: ShareLink[];
+  // The requesting user's role, filled in by the API
+  role?: Role;
   presences?: Presence[];
 }
+// --- Sharing Types ---
+// 'commenter' can do what a viewer can; it is reserved for annotations that don't change the drawing
+export type Role = 'viewer' | 'commenter' | 'editor' | 'owner';
+export interface ShareLink {
+  token: string;
+  role: Role;
+  createdAt: number;
+}
+export interface DrawingMember {
+  userId: string;
+  name: string;
+  role: Role;
+}
+export interface DrawingAccessList {
+  members: DrawingMember[];
+  links: ShareLink[];
+}
+// --- Version History Types ---
+export interface Checkpoint {
+  id: string;
+  name: string;
+  // Seq of the last op the checkpoint includes
+  seq: number;
+  createdAt: number;
+  // Taken while editing rather than saved by a user
+  auto: boolean;
+}
+export interface CheckpointList {
+  checkpoints: Checkpoint[];
+  // Range of seqs the drawing can be rebuilt at
+  minSeq: number;
+  maxSeq: number;
+}
+export interface HistoryScene {
+  seq: number;
+  elements: DrawingElement[];
+}
 export interface Presence {
   userId: string;
+  // Display name, filled in by the worker from the signed-in account; `userId` stays the key
+  name: string;
   cursor?: Point | null;
   lastSeen: number;
 }
@@ -102,9 +244,13 @@ export interface AlignmentGuide {
   end: Point;
 }
 export type Template = Pick<Drawing, 'id' | 'title' | 'elements'>;
-export interface Viewport {
+export interface Bounds {
   x: number;
   y: number;
   width: number;
   height: number;
+}
+// `x`/`y` are the screen offset of the scene origin; a scene point lands on screen at point * zoom + offset
+export interface Viewport extends Bounds {
+  zoom: number;
 }
\ No newline at end of file
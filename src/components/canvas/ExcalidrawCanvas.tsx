@@ -1,15 +1,17 @@
 import React, { useRef, useState, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { DrawingElement, Tool, Point, Presence, AlignmentGuide, TextElement, Viewport } from '@shared/types';
-import { getPathData, snapToGrid, getAlignmentGuides, pointInElement, computeRotationDelta } from '@/lib/drawing';
+import { useGesture } from '@use-gesture/react';
+import { getRoughPaths, getPatternFillPaths, isSketchy, type RoughPath } from '@/lib/rough';
+import type { DrawingElement, Tool, Point, Presence, AlignmentGuide, TextElement, Viewport, ElementStyleOptions, LinearElement, Bounds } from '@shared/types';
+import { getPathData, snapToGrid, getAlignmentGuides, computeRotationDelta, getLinearElementArrowheads, getFillStyle, getStrokeDashArray, isShapeElement, isLinearElement, getAbsolutePoints, rotatePoint, getVisibleSceneBounds, getElementBounds, getBoundsFromPoints, boundsIntersect, getElementsInSelectionBox, getElementAtPoint, hitTestElement, pointInElementBox, HIT_TOLERANCE, MIN_ZOOM, MAX_ZOOM, getTextLines, TEXT_LINE_HEIGHT } from '@/lib/drawing';
+import { getFontStack } from '@/lib/fonts';
 
 interface ExcalidrawCanvasProps {
   elements: DrawingElement[];
   tool: Tool;
-  color: string;
-  strokeWidth: number;
-  onCreateElement: (tool: Tool, start: Point, end: Point, options: { color: string; strokeWidth: number }) => void;
-  onCreateStroke: (points: Point[], options: { color: string; strokeWidth: number }) => void;
+  styleOptions: ElementStyleOptions;
+  onCreateElement: (tool: Tool, start: Point, end: Point, options: ElementStyleOptions) => void;
+  onCreateStroke: (points: Point[], options: ElementStyleOptions) => void;
   onUpdateElement: (id: string, updates: Partial<DrawingElement>) => void;
   onDeleteElement: (id: string) => void;
   onCursorMove: (point: Point) => void;
@@ -20,16 +22,29 @@ interface ExcalidrawCanvasProps {
   selectedIds: string[];
   onSelect: (id: string, multi: boolean) => void;
   onDeselectAll: () => void;
+  onSelectElements: (ids: string[]) => void;
   onDragMove: (delta: Point) => void;
   onResize: (handle: string, delta: Point, elementId: string) => void;
   onRotate: (delta: number, elementId: string) => void;
+  onMovePoint: (elementId: string, index: number, point: Point) => void;
+  onInsertPoint: (elementId: string, index: number, point: Point) => void;
+  onRemovePoint: (elementId: string, index: number) => void;
+  onGestureStart: () => void;
+  onGestureEnd: () => void;
+  onGestureCancel: () => void;
   onPan: (delta: Point) => void;
+  onZoom: (zoom: number, anchor: Point) => void;
   isMobile: boolean;
+  // Viewers can pan, zoom and watch others, but not select or change anything
+  readOnly?: boolean;
 }
-type Action = { type: 'none' } | { type: 'drawing' } | { type: 'panning' } | { type: 'dragging' } | { type: 'resizing'; elementId: string; handle: string } | { type: 'rotating'; elementId: string; } | { type: 'erasing' };
+type Action = { type: 'none' } | { type: 'drawing' } | { type: 'panning' } | { type: 'dragging' } | { type: 'resizing'; elementId: string; handle: string } | { type: 'rotating'; elementId: string; } | { type: 'moving-point'; elementId: string; index: number } | { type: 'erasing' } | { type: 'marquee'; baseIds: string[] };
+// Fixed seed so the sketched preview doesn't flicker while it is being dragged out
+const PREVIEW_SEED = 1;
 const RESIZE_HANDLES = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'top', 'bottom', 'left', 'right'];
 function getHandleCursor(handle: string) {
   if (handle === 'rotate') return 'cursor-grab';
+  if (handle.startsWith('point-') || handle.startsWith('midpoint-')) return 'cursor-move';
   if (handle.includes('top') && handle.includes('left')) return 'cursor-nwse-resize';
   if (handle.includes('top') && handle.includes('right')) return 'cursor-nesw-resize';
   if (handle.includes('bottom') && handle.includes('left')) return 'cursor-nesw-resize';
@@ -45,15 +60,45 @@ function renderElement(el: DrawingElement, onUpdateElement: (id: string, updates
     'data-element-id': el.id,
   };
   const selectionRect = isSelected ? (
-    <rect width={el.width} height={el.height} fill="none" stroke="hsl(var(--primary))" strokeWidth="1" strokeDasharray="3 3" pointerEvents="none" />
+    <rect width={el.width} height={el.height} fill="none" stroke="hsl(var(--primary))" strokeWidth="1" strokeDasharray="3 3" vectorEffect="non-scaling-stroke" pointerEvents="none" />
   ) : null;
+  const dashArray = isShapeElement(el) ? getStrokeDashArray(el.strokeStyle, el.strokeWidth) : undefined;
+  const renderRoughPath = (p: RoughPath, i: number) => <path key={i} d={p.d} stroke={p.stroke} strokeWidth={p.strokeWidth} fill={p.fill} strokeDasharray={p.kind === 'stroke' ? dashArray : undefined} />;
+  if (isSketchy(el)) {
+    return (
+      <g key={el.id} {...commonProps} strokeLinecap="round" strokeLinejoin="round">
+        {getRoughPaths(el).map(renderRoughPath)}
+        {selectionRect}
+      </g>
+    );
+  }
   switch (el.type) {
     case 'stroke':
       return <g key={el.id} {...commonProps}><path d={getPathData(el.points)} stroke={el.strokeColor} strokeWidth={el.strokeWidth} fill="none" strokeLinecap="round" strokeLinejoin="round" />{selectionRect}</g>;
     case 'rectangle':
-      return <g key={el.id} {...commonProps}><rect width={el.width} height={el.height} stroke={el.strokeColor} strokeWidth={el.strokeWidth} fill={el.fillColor} />{selectionRect}</g>;
-    case 'ellipse':
-      return <g key={el.id} {...commonProps}><ellipse cx={el.width / 2} cy={el.height / 2} rx={el.width / 2} ry={el.height / 2} stroke={el.strokeColor} strokeWidth={el.strokeWidth} fill={el.fillColor} />{selectionRect}</g>;
+    case 'ellipse': {
+      const outlineProps = { stroke: el.strokeColor, strokeWidth: el.strokeWidth, strokeDasharray: dashArray, fill: getFillStyle(el) === 'solid' ? el.fillColor : 'none' };
+      return (
+        <g key={el.id} {...commonProps} strokeLinecap="round">
+          {getPatternFillPaths(el).map(renderRoughPath)}
+          {el.type === 'rectangle'
+            ? <rect width={el.width} height={el.height} rx={el.roundness ?? 0} {...outlineProps} />
+            : <ellipse cx={el.width / 2} cy={el.height / 2} rx={el.width / 2} ry={el.height / 2} {...outlineProps} />}
+          {selectionRect}
+        </g>
+      );
+    }
+    case 'line':
+    case 'arrow': {
+      const pathData = getPathData(el.points);
+      return (
+        <g key={el.id} {...commonProps}>
+          <path d={pathData} stroke={el.strokeColor} strokeWidth={el.strokeWidth} fill="none" strokeLinecap="round" strokeLinejoin="round" />
+          {getLinearElementArrowheads(el).map((head, i) => <path key={i} d={head.d} stroke={el.strokeColor} strokeWidth={el.strokeWidth} fill={head.filled ? el.strokeColor : 'none'} strokeLinejoin="round" />)}
+          {selectionRect}
+        </g>
+      );
+    }
     case 'text': {
       const textEl = el as TextElement;
       if (textEl.isEditing) {
@@ -68,13 +113,32 @@ function renderElement(el: DrawingElement, onUpdateElement: (id: string, updates
           </g>
         );
       }
-      return <g key={el.id} {...commonProps}><text x="0" y={textEl.fontSize} fontFamily={textEl.fontFamily} fontSize={textEl.fontSize} fill={textEl.strokeColor}>{textEl.text}</text>{selectionRect}</g>;
+      return (
+        <g key={el.id} {...commonProps}>
+          <text fontFamily={getFontStack(textEl.fontFamily)} fontSize={textEl.fontSize} fill={textEl.strokeColor} xmlSpace="preserve">
+            {getTextLines(textEl.text).map((line, i) => <tspan key={i} x="0" y={textEl.fontSize + i * textEl.fontSize * TEXT_LINE_HEIGHT}>{line}</tspan>)}
+          </text>
+          {selectionRect}
+        </g>
+      );
     }
     default: return null;
   }
 }
-const boundsIntersect = (b1: Viewport, b2: { x: number; y: number; width: number; height: number; }) => !(b2.x > b1.x + b1.width || b2.x + b2.width < b1.x || b2.y > b1.y + b1.height || b2.y + b2.height < b1.y);
-export function ExcalidrawCanvas({ elements, tool, color, strokeWidth, onCreateElement, onCreateStroke, onUpdateElement, onDeleteElement, onCursorMove, presences = [], showGrid = false, enableSnapping = true, viewport, selectedIds, onSelect, onDeselectAll, onDragMove, onResize, onRotate, onPan, isMobile }: ExcalidrawCanvasProps) {
+// Vertex handles plus midpoint handles that insert a new vertex when dragged
+function renderPointHandles(el: LinearElement, handleSize: number) {
+  const center = { x: el.x + el.width / 2, y: el.y + el.height / 2 };
+  const points = getAbsolutePoints(el).map(p => rotatePoint(p, center, el.angle));
+  const midpoints = points.slice(1).map((p, i) => ({ x: (points[i].x + p.x) / 2, y: (points[i].y + p.y) / 2 }));
+  return (
+    <>
+      {midpoints.map((p, i) => <motion.circle key={`midpoint-${i}`} cx={p.x} cy={p.y} r={handleSize / 3} fill="hsl(var(--background))" stroke="hsl(var(--primary))" strokeWidth="1" data-handle={`midpoint-${i}`} data-element-id={el.id} className={getHandleCursor('midpoint')} whileHover={{ scale: 1.5 }} />)}
+      {points.map((p, i) => <motion.circle key={`point-${i}`} cx={p.x} cy={p.y} r={handleSize / 2} fill="hsl(var(--primary))" data-handle={`point-${i}`} data-element-id={el.id} className={getHandleCursor('point-')} whileHover={{ scale: 1.5 }} />)}
+    </>
+  );
+}
+export function ExcalidrawCanvas({ elements, tool, styleOptions, onCreateElement, onCreateStroke, onUpdateElement, onDeleteElement, onCursorMove, presences = [], showGrid = false, enableSnapping = true, viewport, selectedIds, onSelect, onDeselectAll, onSelectElements, onDragMove, onResize, onRotate, onMovePoint, onInsertPoint, onRemovePoint, onGestureStart, onGestureEnd, onGestureCancel, onPan, onZoom, isMobile, readOnly = false }: ExcalidrawCanvasProps) {
+  const { color, strokeWidth } = styleOptions;
   const targetRef = useRef<SVGSVGElement>(null);
   const [action, setAction] = useState<Action>({ type: 'none' });
   const currentPointsRef = useRef<Point[]>([]);
@@ -82,38 +146,88 @@ export function ExcalidrawCanvas({ elements, tool, color, strokeWidth, onCreateE
   const lastPointRef = useRef<Point>({ x: 0, y: 0 });
   const [previewElement, setPreviewElement] = useState<DrawingElement | null>(null);
   const [alignmentGuides, setAlignmentGuides] = useState<AlignmentGuide[]>([]);
-  const handleSize = isMobile ? 12 : 8;
-  const getSvgPoint = useCallback((e: React.PointerEvent): Point => {
+  const [marquee, setMarquee] = useState<Bounds | null>(null);
+  const activePointersRef = useRef(new Set<number>());
+  // Handles keep a constant on-screen size regardless of zoom
+  const handleSize = (isMobile ? 12 : 8) / viewport.zoom;
+  // Client coordinates to the svg's own (screen-space) coordinates
+  const getLocalPoint = useCallback((clientX: number, clientY: number): Point => {
     if (!targetRef.current) return { x: 0, y: 0 };
     const svg = targetRef.current;
     const pt = svg.createSVGPoint();
-    pt.x = e.clientX;
-    pt.y = e.clientY;
+    pt.x = clientX;
+    pt.y = clientY;
     const transformed = pt.matrixTransform(svg.getScreenCTM()?.inverse());
-    return { x: transformed.x - viewport.x, y: transformed.y - viewport.y };
-  }, [viewport.x, viewport.y]);
-  const virtualizedElements = useMemo(() => elements.filter(el => boundsIntersect({ ...viewport, x: 0, y: 0 }, { x: el.x - viewport.x, y: el.y - viewport.y, width: el.width, height: el.height })), [elements, viewport]);
+    return { x: transformed.x, y: transformed.y };
+  }, []);
+  const getSvgPoint = useCallback((e: { clientX: number; clientY: number }): Point => {
+    const local = getLocalPoint(e.clientX, e.clientY);
+    return { x: (local.x - viewport.x) / viewport.zoom, y: (local.y - viewport.y) / viewport.zoom };
+  }, [getLocalPoint, viewport.x, viewport.y, viewport.zoom]);
+  const virtualizedElements = useMemo(() => {
+    const visible = getVisibleSceneBounds(viewport);
+    return elements.filter(el => boundsIntersect(visible, getElementBounds(el)));
+  }, [elements, viewport]);
+  useGesture({
+    // Trackpad pinches arrive as ctrl+wheel and are reported here as pinches too
+    onPinch: ({ offset: [zoom], origin: [ox, oy] }) => onZoom(zoom, getLocalPoint(ox, oy)),
+    onWheel: ({ event, delta: [dx, dy], pinching }) => {
+      if (pinching) return;
+      event.preventDefault();
+      onPan({ x: -dx, y: -dy });
+    },
+  }, {
+    target: targetRef,
+    eventOptions: { passive: false },
+    pinch: { scaleBounds: { min: MIN_ZOOM, max: MAX_ZOOM }, from: () => [viewport.zoom, 0] },
+  });
+  const cancelAction = () => {
+    onGestureCancel();
+    setAction({ type: 'none' });
+    setAlignmentGuides([]);
+    setPreviewElement(null);
+    setMarquee(null);
+    currentPointsRef.current = [];
+  };
   const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    activePointersRef.current.add(e.pointerId);
+    // A second finger means a pinch gesture, not a drawing stroke
+    if (activePointersRef.current.size > 1) { cancelAction(); return; }
     const point = getSvgPoint(e);
     startPointRef.current = point;
     lastPointRef.current = point;
     e.currentTarget.setPointerCapture(e.pointerId);
-    if (tool === 'hand') { setAction({ type: 'panning' }); return; }
+    if (tool === 'hand' || readOnly) { setAction({ type: 'panning' }); return; }
+    // Everything the select and eraser tools change until pointer-up is one gesture
+    if (tool === 'select' || tool === 'eraser') onGestureStart();
     if (tool === 'eraser') { setAction({ type: 'erasing' }); return; }
     const target = e.target as SVGElement;
     const handle = target.getAttribute('data-handle');
-    const elementId = target.closest('[data-element-id]')?.getAttribute('data-element-id');
+    const elementId = target.getAttribute('data-element-id');
     if (tool === 'select') {
+      // Handles are real DOM targets; elements themselves are picked geometrically
+      const hit = handle ? null : getElementAtPoint(elements, point, HIT_TOLERANCE / viewport.zoom);
+      // Inside a selected shape's box still drags it, even where an unfilled shape has no paint
+      const insideSelection = !hit && elements.some(el => selectedIds.includes(el.id) && pointInElementBox(point, el));
       if (handle && elementId) {
         if (handle === 'rotate') { setAction({ type: 'rotating', elementId }); }
+        else if (handle.startsWith('point-')) { setAction({ type: 'moving-point', elementId, index: Number(handle.slice('point-'.length)) }); }
+        else if (handle.startsWith('midpoint-')) {
+          const index = Number(handle.slice('midpoint-'.length)) + 1;
+          onInsertPoint(elementId, index, point);
+          setAction({ type: 'moving-point', elementId, index });
+        }
         else { setAction({ type: 'resizing', elementId, handle }); }
-      } else if (elementId && selectedIds.includes(elementId)) {
+      } else if ((hit && selectedIds.includes(hit.id)) || insideSelection) {
         setAction({ type: 'dragging' });
-      } else if (elementId) {
-        onSelect(elementId, e.shiftKey);
+      } else if (hit) {
+        onSelect(hit.id, e.shiftKey);
         setAction({ type: 'dragging' });
       } else {
-        onDeselectAll();
+        // Empty space starts a rubber-band selection; shift adds to what is already selected
+        const baseIds = e.shiftKey ? selectedIds : [];
+        if (!e.shiftKey) onDeselectAll();
+        setAction({ type: 'marquee', baseIds });
       }
     } else {
       setAction({ type: 'drawing' });
@@ -127,11 +241,11 @@ export function ExcalidrawCanvas({ elements, tool, color, strokeWidth, onCreateE
     if (now - lastEraseRef.current < 100) return;
     lastEraseRef.current = now;
     elements.forEach(el => {
-      if (pointInElement(point, el)) {
+      if (el.opacity !== 0 && hitTestElement(point, el, HIT_TOLERANCE / viewport.zoom)) {
         onDeleteElement(el.id);
       }
     });
-  }, [elements, onDeleteElement]);
+  }, [elements, onDeleteElement, viewport.zoom]);
   const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
     const point = getSvgPoint(e);
     const delta = { x: point.x - lastPointRef.current.x, y: point.y - lastPointRef.current.y };
@@ -149,12 +263,27 @@ export function ExcalidrawCanvas({ elements, tool, color, strokeWidth, onCreateE
         }
         break;
       }
+      case 'moving-point': onMovePoint(action.elementId, action.index, enableSnapping ? snapToGrid(point, 20) : point); break;
       case 'erasing': throttledEraser(point); break;
+      case 'marquee': {
+        const box = getBoundsFromPoints(startPointRef.current, point);
+        setMarquee(box);
+        // Alt switches from fully-enclosed to touched elements
+        const hits = getElementsInSelectionBox(elements, box, e.altKey ? 'intersect' : 'contain').map(el => el.id);
+        onSelectElements([...new Set([...action.baseIds, ...hits])]);
+        break;
+      }
       case 'drawing': {
         let snappedPoint = enableSnapping ? snapToGrid(point, 20) : point;
         if (tool === 'pen') { currentPointsRef.current.push(snappedPoint); setPreviewElement({ id: 'preview-stroke', type: 'stroke', points: [...currentPointsRef.current], strokeColor: color, strokeWidth } as any); }
         else if (tool !== 'select' && tool !== 'hand') {
-          const tempPreview = { id: 'preview', type: tool, x: Math.min(startPointRef.current.x, snappedPoint.x), y: Math.min(startPointRef.current.y, snappedPoint.y), width: Math.abs(startPointRef.current.x - snappedPoint.x), height: Math.abs(startPointRef.current.y - snappedPoint.y), angle: 0, strokeColor: color, strokeWidth, opacity: 1, fillColor: 'transparent', strokeStyle: 'solid' } as any;
+          const start = startPointRef.current;
+          const tempPreview = { id: 'preview', type: tool, x: Math.min(start.x, snappedPoint.x), y: Math.min(start.y, snappedPoint.y), width: Math.abs(start.x - snappedPoint.x), height: Math.abs(start.y - snappedPoint.y), angle: 0, strokeColor: color, strokeWidth, opacity: styleOptions.opacity, fillColor: styleOptions.fillColor, fillStyle: styleOptions.fillStyle, strokeStyle: styleOptions.strokeStyle, roundness: tool === 'rectangle' ? styleOptions.roundness : undefined, roughness: styleOptions.roughness, seed: PREVIEW_SEED } as any;
+          if (tool === 'line' || tool === 'arrow') {
+            tempPreview.points = [{ x: start.x - tempPreview.x, y: start.y - tempPreview.y }, { x: snappedPoint.x - tempPreview.x, y: snappedPoint.y - tempPreview.y }];
+            tempPreview.startArrowhead = tool === 'arrow' ? styleOptions.startArrowhead : 'none';
+            tempPreview.endArrowhead = tool === 'arrow' ? styleOptions.endArrowhead : 'none';
+          }
           setPreviewElement(tempPreview);
           if (enableSnapping) setAlignmentGuides(getAlignmentGuides(elements, tempPreview));
         }
@@ -164,36 +293,49 @@ export function ExcalidrawCanvas({ elements, tool, color, strokeWidth, onCreateE
     lastPointRef.current = point;
   };
   const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
-    e.currentTarget.releasePointerCapture(e.pointerId);
+    activePointersRef.current.delete(e.pointerId);
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    // Nothing in progress, e.g. the gesture was cancelled by a pinch
+    if (action.type === 'none') return;
+    onGestureEnd();
     setAction({ type: 'none' });
     setAlignmentGuides([]);
+    setMarquee(null);
     let endPoint = getSvgPoint(e);
     if (enableSnapping) endPoint = snapToGrid(endPoint, 20);
-    if (tool === 'pen' && currentPointsRef.current.length > 1) { onCreateStroke(currentPointsRef.current, { color, strokeWidth }); }
-    else if (tool !== 'select' && tool !== 'hand' && tool !== 'pen' && tool !== 'eraser') { onCreateElement(tool, startPointRef.current, endPoint, { color, strokeWidth }); }
+    if (tool === 'pen' && currentPointsRef.current.length > 1) { onCreateStroke(currentPointsRef.current, styleOptions); }
+    else if (tool !== 'select' && tool !== 'hand' && tool !== 'pen' && tool !== 'eraser') { onCreateElement(tool, startPointRef.current, endPoint, styleOptions); }
     currentPointsRef.current = [];
     setPreviewElement(null);
   };
   const handleDoubleClick = (e: React.MouseEvent) => {
+    if (readOnly) return;
     const target = e.target as SVGElement;
-    const elementId = target.closest('[data-element-id]')?.getAttribute('data-element-id');
-    if (elementId) {
-      const el = elements.find(e => e.id === elementId);
-      if (el && el.type === 'text') {
-        onUpdateElement(el.id, { isEditing: true });
-      }
+    const elementId = target.getAttribute('data-element-id');
+    const handle = target.getAttribute('data-handle');
+    if (elementId && handle?.startsWith('point-')) {
+      onRemovePoint(elementId, Number(handle.slice('point-'.length)));
+      return;
+    }
+    const el = getElementAtPoint(elements, getSvgPoint(e), HIT_TOLERANCE / viewport.zoom);
+    if (el && el.type === 'text') {
+      onUpdateElement(el.id, { isEditing: true });
     }
   };
-  const singleSelectedElement = useMemo(() => selectedIds.length === 1 ? elements.find(el => el.id === selectedIds[0]) : null, [selectedIds, elements]);
+  // Coarser grid when zoomed far out so the lines don't turn into a solid fill
+  const gridStep = viewport.zoom < 0.5 ? 100 : 20;
+  const singleSelectedElement = useMemo(() => !readOnly && selectedIds.length === 1 ? elements.find(el => el.id === selectedIds[0]) : null, [readOnly, selectedIds, elements]);
   return (
-    <svg ref={targetRef} className="w-full h-full bg-card touch-none" style={{ cursor: tool === 'hand' ? 'grab' : tool === 'eraser' ? 'crosshair' : 'default' }} onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerCancel={handlePointerUp} onDoubleClick={handleDoubleClick}>
-      {showGrid && <pattern id="grid" width="20" height="20" patternUnits="userSpaceOnUse"><path d="M 20 0 L 0 0 0 20" fill="none" stroke="hsl(var(--muted))" strokeWidth="0.5" /></pattern>}
+    <svg ref={targetRef} className="w-full h-full bg-card touch-none" style={{ cursor: tool === 'hand' || readOnly ? 'grab' : tool === 'eraser' ? 'crosshair' : 'default' }} onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerCancel={handlePointerUp} onDoubleClick={handleDoubleClick}>
+      {showGrid && <pattern id="grid" width={gridStep} height={gridStep} patternUnits="userSpaceOnUse" patternTransform={`translate(${viewport.x} ${viewport.y}) scale(${viewport.zoom})`}><path d={`M ${gridStep} 0 L 0 0 0 ${gridStep}`} fill="none" stroke="hsl(var(--muted))" strokeWidth={0.5 / viewport.zoom} /></pattern>}
       <rect width="100%" height="100%" fill={showGrid ? "url(#grid)" : "transparent"} />
-      <g transform={`translate(${viewport.x}, ${viewport.y})`}>
+      <g transform={`translate(${viewport.x}, ${viewport.y}) scale(${viewport.zoom})`}>
         {virtualizedElements.map(el => renderElement(el, onUpdateElement, selectedIds.includes(el.id)))}
         {previewElement && renderElement(previewElement, () => {}, false)}
-        <AnimatePresence>{alignmentGuides.map((guide, i) => <motion.line key={i} x1={guide.start.x} y1={guide.start.y} x2={guide.end.x} y2={guide.end.y} stroke="hsl(var(--primary))" strokeWidth="1" strokeDasharray="3 3" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} />)}</AnimatePresence>
-        {singleSelectedElement && [...RESIZE_HANDLES, 'rotate'].map(handle => {
+        {marquee && <rect x={marquee.x} y={marquee.y} width={marquee.width} height={marquee.height} fill="hsl(var(--primary))" fillOpacity={0.08} stroke="hsl(var(--primary))" strokeWidth="1" vectorEffect="non-scaling-stroke" pointerEvents="none" />}
+        <AnimatePresence>{alignmentGuides.map((guide, i) => <motion.line key={i} x1={guide.start.x} y1={guide.start.y} x2={guide.end.x} y2={guide.end.y} stroke="hsl(var(--primary))" strokeWidth="1" strokeDasharray="3 3" vectorEffect="non-scaling-stroke" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} />)}</AnimatePresence>
+        {singleSelectedElement && isLinearElement(singleSelectedElement) && renderPointHandles(singleSelectedElement, handleSize)}
+        {singleSelectedElement && !isLinearElement(singleSelectedElement) && [...RESIZE_HANDLES, 'rotate'].map(handle => {
           const { x, y, width, height } = singleSelectedElement;
           let hx = x, hy = y;
           if (handle.includes('right')) hx = x + width;
@@ -202,10 +344,10 @@ export function ExcalidrawCanvas({ elements, tool, color, strokeWidth, onCreateE
           if (handle.includes('top')) hy = y;
           if (handle === 'top' || handle === 'bottom') hx = x + width / 2;
           if (handle === 'left' || handle === 'right') hy = y + height / 2;
-          if (handle === 'rotate') { hx = x + width / 2; hy = y - 20; }
+          if (handle === 'rotate') { hx = x + width / 2; hy = y - 20 / viewport.zoom; }
           return <motion.circle key={handle} cx={hx} cy={hy} r={handleSize / 2} fill="hsl(var(--primary))" data-handle={handle} data-element-id={singleSelectedElement.id} className={getHandleCursor(handle)} whileHover={{ scale: 1.5 }} />;
         })}
-        {presences.map(p => p.cursor && <motion.g key={p.userId} initial={{ x: p.cursor.x, y: p.cursor.y }} animate={{ x: p.cursor.x, y: p.cursor.y }} transition={{ type: 'spring', stiffness: 500, damping: 30 }}><circle r={6} fill="#f48018" className="pointer-events-none" /><text x="10" y="5" fontSize="10" fill="#f48018">{p.userId}</text></motion.g>)}
+        {presences.map(p => p.cursor && <motion.g key={p.userId} initial={{ x: p.cursor.x, y: p.cursor.y }} animate={{ x: p.cursor.x, y: p.cursor.y }} transition={{ type: 'spring', stiffness: 500, damping: 30 }}><g transform={`scale(${1 / viewport.zoom})`}><circle r={6} fill="#f48018" className="pointer-events-none" /><text x="10" y="5" fontSize="10" fill="#f48018">{p.name}</text></g></motion.g>)}
       </g>
     </svg>
   );
@@ -0,0 +1,84 @@
+import React, { useMemo, useState } from 'react';
+import { useDebounce } from 'react-use';
+import { RotateCcw, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { CheckpointList, DrawingElement, HistoryScene } from '@shared/types';
+import { exportToSvg } from '@/lib/export';
+const THUMBNAIL_PADDING = 16;
+function SceneThumbnail({ elements, className }: { elements?: DrawingElement[]; className?: string }) {
+  const src = useMemo(() => {
+    const exported = elements && exportToSvg(elements, { padding: THUMBNAIL_PADDING, background: 'white', embedScene: false });
+    return exported ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(exported.svg)}` : null;
+  }, [elements]);
+  return (
+    <div className={`rounded-md border bg-white flex items-center justify-center overflow-hidden ${className ?? ''}`}>
+      {src ? <img src={src} alt="" className="w-full h-full object-contain" /> : <span className="text-xs text-muted-foreground">{elements ? 'Empty' : 'Loading…'}</span>}
+    </div>
+  );
+}
+interface HistoryPanelProps {
+  history: CheckpointList | null;
+  checkpointScenes: Record<string, DrawingElement[]>;
+  preview: HistoryScene | null;
+  onPreviewSeq: (seq: number) => void;
+  onSaveCheckpoint: (name: string) => void;
+  onRestore: (elements: DrawingElement[], label: string) => void;
+  // Viewers can browse history but not save checkpoints or restore
+  readOnly?: boolean;
+}
+export function HistoryPanel({ history, checkpointScenes, preview, onPreviewSeq, onSaveCheckpoint, onRestore, readOnly = false }: HistoryPanelProps) {
+  const [name, setName] = useState('');
+  const [scrubSeq, setScrubSeq] = useState<number | null>(null);
+  // Fetching a scene per slider tick would flood the worker
+  useDebounce(() => { if (scrubSeq !== null) onPreviewSeq(scrubSeq); }, 200, [scrubSeq]);
+  const checkpoints = useMemo(() => [...(history?.checkpoints ?? [])].sort((a, b) => b.createdAt - a.createdAt), [history]);
+  if (!history) return <p className="text-sm text-muted-foreground p-4">Loading history…</p>;
+  const seq = scrubSeq ?? history.maxSeq;
+  const save = () => {
+    if (!name.trim()) return;
+    onSaveCheckpoint(name.trim());
+    setName('');
+  };
+  return (
+    <div className="h-full flex flex-col gap-4 pt-4">
+      {!readOnly && <div className="flex gap-2">
+        <Input value={name} onChange={e => setName(e.target.value)} onKeyDown={e => e.key === 'Enter' && save()} placeholder="Checkpoint name" />
+        <Button onClick={save} disabled={!name.trim()}><Save className="h-4 w-4 mr-2" />Save</Button>
+      </div>}
+      <div className="space-y-2">
+        <Label>Change {seq} of {history.maxSeq}</Label>
+        <Slider min={history.minSeq} max={history.maxSeq} step={1} value={[seq]} onValueChange={([value]) => setScrubSeq(value)} disabled={history.minSeq >= history.maxSeq} />
+        {scrubSeq !== null && (
+          <>
+            <SceneThumbnail elements={preview?.seq === scrubSeq ? preview.elements : undefined} className="h-40" />
+            {!readOnly && <Button variant="outline" className="w-full" disabled={preview?.seq !== scrubSeq} onClick={() => preview && onRestore(preview.elements, `change ${preview.seq}`)}>
+              <RotateCcw className="h-4 w-4 mr-2" />Restore this version
+            </Button>}
+          </>
+        )}
+      </div>
+      <ScrollArea className="flex-1 -mx-6 px-6">
+        <div className="space-y-2">
+          {checkpoints.length === 0 && <p className="text-sm text-muted-foreground">No checkpoints yet.</p>}
+          {checkpoints.map(cp => (
+            <div key={cp.id} className="flex items-center gap-3 p-2 rounded-md border">
+              <SceneThumbnail elements={checkpointScenes[cp.id]} className="h-14 w-20 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{cp.name} {cp.auto && <Badge variant="secondary" className="ml-1">Auto</Badge>}</p>
+                <p className="text-xs text-muted-foreground">{new Date(cp.createdAt).toLocaleString()}</p>
+              </div>
+              {!readOnly && <Button variant="ghost" size="icon" disabled={!checkpointScenes[cp.id]} onClick={() => onRestore(checkpointScenes[cp.id], `"${cp.name}"`)}>
+                <RotateCcw className="h-4 w-4" />
+              </Button>}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
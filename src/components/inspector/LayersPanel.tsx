@@ -1,6 +1,6 @@
 import React from 'react';
 import { DndContext, closestCenter, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core';
-import { arrayMove, SortableContext, useSortable } from '@dnd-kit/sortable';
+import { SortableContext, useSortable } from '@dnd-kit/sortable';
 import { verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { GripVertical, Eye, EyeOff, Trash2 } from 'lucide-react';
@@ -40,16 +40,14 @@ function SortableItem({ id, children }: SortableItemProps) {
 interface LayersPanelProps {
   elements: DrawingElement[];
   onDispatchOp: (op: Op) => void;
-  onReorder: (elements: DrawingElement[]) => void;
+  onMoveElement: (elementId: string, position: number) => void;
 }
-export function LayersPanel({ elements, onDispatchOp, onReorder }: LayersPanelProps) {
+export function LayersPanel({ elements, onDispatchOp, onMoveElement }: LayersPanelProps) {
   const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
     if (over && active.id !== over.id) {
-      const oldIndex = elements.findIndex((el) => el.id === active.id);
-      const newIndex = elements.findIndex((el) => el.id === over.id);
-      onReorder(arrayMove(elements, oldIndex, newIndex));
+      onMoveElement(String(active.id), elements.findIndex((el) => el.id === over.id));
     }
   };
   const handleToggleVisibility = (id: string) => {
@@ -0,0 +1,249 @@
+import React from 'react';
+import { HexColorPicker } from 'react-colorful';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Arrowhead, DrawingElement, ElementStyleOptions, ElementType, FillStyle, StrokeStyle, Tool } from '@shared/types';
+import { getArrowheads, getFillStyle, isLinearElement, isShapeElement } from '@/lib/drawing';
+import { FONT_FAMILIES } from '@/lib/fonts';
+const MIXED = 'mixed';
+type Mixed = typeof MIXED;
+// Element fields the inspector edits, each listed with the element types it applies to
+const PROPERTY_TYPES = {
+  strokeColor: ['stroke', 'rectangle', 'ellipse', 'line', 'arrow', 'text'],
+  opacity: ['stroke', 'rectangle', 'ellipse', 'line', 'arrow', 'text'],
+  strokeWidth: ['stroke', 'rectangle', 'ellipse', 'line', 'arrow'],
+  roughness: ['stroke', 'rectangle', 'ellipse', 'line', 'arrow'],
+  strokeStyle: ['rectangle', 'ellipse'],
+  fillStyle: ['rectangle', 'ellipse'],
+  fillColor: ['rectangle', 'ellipse'],
+  roundness: ['rectangle'],
+  startArrowhead: ['line', 'arrow'],
+  endArrowhead: ['line', 'arrow'],
+  fontSize: ['text'],
+  fontFamily: ['text'],
+} satisfies Record<string, ElementType[]>;
+type InspectorProperty = keyof typeof PROPERTY_TYPES;
+type InspectorValues = {
+  strokeColor: string; opacity: number; strokeWidth: number; roughness: number; strokeStyle: StrokeStyle; fillStyle: FillStyle; fillColor: string;
+  roundness: number; startArrowhead: Arrowhead; endArrowhead: Arrowhead; fontSize: number; fontFamily: string;
+};
+const TOOL_ELEMENT_TYPES: Partial<Record<Tool, ElementType>> = { pen: 'stroke', rectangle: 'rectangle', ellipse: 'ellipse', line: 'line', arrow: 'arrow', text: 'text' };
+const strokeStyles: { value: StrokeStyle; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+];
+const fillStyles: { value: FillStyle; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'solid', label: 'Solid' },
+  { value: 'hachure', label: 'Hachure' },
+  { value: 'cross-hatch', label: 'Cross' },
+  { value: 'zigzag', label: 'Zigzag' },
+];
+const sloppinessLevels = [
+  { value: 0, label: 'Architect' },
+  { value: 1, label: 'Artist' },
+  { value: 2, label: 'Cartoonist' },
+];
+const arrowheads: { value: Arrowhead; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'triangle', label: 'Triangle' },
+  { value: 'bar', label: 'Bar' },
+  { value: 'dot', label: 'Dot' },
+];
+const fontSizes = [16, 20, 24, 32, 48, 64];
+const MAX_ROUNDNESS = 48;
+function isApplicable(type: ElementType, key: InspectorProperty): boolean {
+  return (PROPERTY_TYPES[key] as ElementType[]).includes(type);
+}
+function readProperty(el: DrawingElement, key: InspectorProperty): InspectorValues[InspectorProperty] | undefined {
+  if (!isApplicable(el.type, key)) return undefined;
+  switch (key) {
+    case 'roughness': return el.roughness ?? 0;
+    case 'fillStyle': return isShapeElement(el) ? getFillStyle(el) : undefined;
+    case 'roundness': return el.type === 'rectangle' ? el.roundness ?? 0 : undefined;
+    case 'startArrowhead': return isLinearElement(el) ? getArrowheads(el)[0] : undefined;
+    case 'endArrowhead': return isLinearElement(el) ? getArrowheads(el)[1] : undefined;
+    default: return (el as unknown as Record<string, InspectorValues[InspectorProperty]>)[key];
+  }
+}
+// The common value across every element the property applies to, MIXED when they disagree, undefined when none apply
+function getSharedValue<K extends InspectorProperty>(elements: DrawingElement[], key: K): InspectorValues[K] | Mixed | undefined {
+  const values = elements.map(el => readProperty(el, key)).filter(v => v !== undefined) as InspectorValues[K][];
+  if (values.length === 0) return undefined;
+  return values.every(v => v === values[0]) ? values[0] : MIXED;
+}
+// Stand-in element so the defaults for the active tool can be shown and edited through the same fields
+function getDefaultsElement(type: ElementType, options: ElementStyleOptions): DrawingElement {
+  return {
+    id: 'defaults', type, x: 0, y: 0, width: 0, height: 0, angle: 0, points: [], text: '',
+    strokeColor: options.color, strokeWidth: options.strokeWidth, opacity: options.opacity, roughness: options.roughness,
+    strokeStyle: options.strokeStyle, fillColor: options.fillColor, fillStyle: options.fillStyle, roundness: options.roundness,
+    startArrowhead: options.startArrowhead, endArrowhead: options.endArrowhead, fontSize: options.fontSize, fontFamily: options.fontFamily,
+  } as DrawingElement;
+}
+function toStyleOptions(updates: Partial<InspectorValues>): Partial<ElementStyleOptions> {
+  const { strokeColor, ...rest } = updates;
+  return strokeColor !== undefined ? { ...rest, color: strokeColor } : rest;
+}
+function getElementUpdates(el: DrawingElement, updates: Partial<InspectorValues>): Partial<DrawingElement> | null {
+  const applicable = Object.fromEntries(Object.entries(updates).filter(([key]) => isApplicable(el.type, key as InspectorProperty))) as Partial<InspectorValues>;
+  if (Object.keys(applicable).length === 0) return null;
+  // Text boxes grow and shrink with their font so the selection frame keeps fitting the glyphs
+  if (el.type === 'text' && applicable.fontSize !== undefined && el.fontSize > 0) {
+    const ratio = applicable.fontSize / el.fontSize;
+    return { ...applicable, width: el.width * ratio, height: el.height * ratio } as Partial<DrawingElement>;
+  }
+  return applicable as Partial<DrawingElement>;
+}
+function MixedHint({ value }: { value: unknown }) {
+  return value === MIXED ? <span className="ml-1 text-muted-foreground italic">(mixed)</span> : null;
+}
+function ColorField({ label, value, onChange }: { label: string; value: string | Mixed; onChange: (color: string) => void }) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <span className="h-4 w-4 rounded-sm border" style={value === MIXED ? { background: 'repeating-linear-gradient(45deg, #ccc 0 3px, transparent 3px 6px)' } : { backgroundColor: value }} />
+          {label}<MixedHint value={value} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0 border-0"><HexColorPicker color={value === MIXED ? '#000000' : value} onChange={onChange} /></PopoverContent>
+    </Popover>
+  );
+}
+interface PropertiesPanelProps {
+  selectedElements: DrawingElement[];
+  activeTool: Tool;
+  styleOptions: ElementStyleOptions;
+  onStyleOptionsChange: (updates: Partial<ElementStyleOptions>) => void;
+  onUpdateSelected: (getUpdates: (el: DrawingElement) => Partial<DrawingElement> | null) => void;
+}
+export function PropertiesPanel({ selectedElements, activeTool, styleOptions, onStyleOptionsChange, onUpdateSelected }: PropertiesPanelProps) {
+  const hasSelection = selectedElements.length > 0;
+  const defaultsType = TOOL_ELEMENT_TYPES[activeTool];
+  // With a selection the panel edits it; otherwise it edits the defaults of the active drawing tool
+  const targets = hasSelection ? selectedElements : defaultsType ? [getDefaultsElement(defaultsType, styleOptions)] : [];
+  if (targets.length === 0) {
+    return (
+      <Card>
+        <CardHeader className="pb-2"><CardTitle>Properties</CardTitle></CardHeader>
+        <CardContent><p className="text-xs text-muted-foreground">Select elements or pick a drawing tool to edit styles.</p></CardContent>
+      </Card>
+    );
+  }
+  const value = <K extends InspectorProperty>(key: K) => getSharedValue(targets, key);
+  const apply = (updates: Partial<InspectorValues>) => {
+    // Edits are remembered as the defaults for the next element, as in most drawing tools
+    onStyleOptionsChange(toStyleOptions(updates));
+    if (hasSelection) onUpdateSelected(el => getElementUpdates(el, updates));
+  };
+  const strokeColor = value('strokeColor');
+  const opacity = value('opacity');
+  const strokeWidth = value('strokeWidth');
+  const roughness = value('roughness');
+  const strokeStyle = value('strokeStyle');
+  const fillStyle = value('fillStyle');
+  const fillColor = value('fillColor');
+  const roundness = value('roundness');
+  const startArrowhead = value('startArrowhead');
+  const endArrowhead = value('endArrowhead');
+  const fontSize = value('fontSize');
+  const fontFamily = value('fontFamily');
+  const setFillStyle = (style: FillStyle) => {
+    // Picking a fill on a transparent shape would otherwise draw nothing visible
+    const needsColor = style !== 'none' && (fillColor === 'transparent' || fillColor === MIXED);
+    apply(needsColor ? { fillStyle: style, fillColor: strokeColor !== undefined && strokeColor !== MIXED ? strokeColor : styleOptions.color } : { fillStyle: style });
+  };
+  const toggleValue = (v: string | number | Mixed | undefined) => (v === MIXED || v === undefined ? '' : String(v));
+  return (
+    <Card className="flex flex-col">
+      <CardHeader className="pb-2">
+        <CardTitle>Properties</CardTitle>
+        <p className="text-xs text-muted-foreground">{hasSelection ? `${selectedElements.length} element(s) selected` : `Defaults for new ${defaultsType} elements`}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {strokeColor !== undefined && <ColorField label={defaultsType === 'text' && !hasSelection ? 'Text color' : 'Stroke color'} value={strokeColor} onChange={color => apply({ strokeColor: color })} />}
+        {strokeWidth !== undefined && (
+          <div className="space-y-2">
+            <Label className="text-xs">Stroke width {strokeWidth !== MIXED && `(${strokeWidth}px)`}<MixedHint value={strokeWidth} /></Label>
+            <Slider min={1} max={24} step={1} value={[strokeWidth === MIXED ? styleOptions.strokeWidth : strokeWidth]} onValueChange={([w]) => apply({ strokeWidth: w })} />
+          </div>
+        )}
+        {opacity !== undefined && (
+          <div className="space-y-2">
+            <Label className="text-xs">Opacity {opacity !== MIXED && `(${Math.round(opacity * 100)}%)`}<MixedHint value={opacity} /></Label>
+            <Slider min={0} max={100} step={5} value={[opacity === MIXED ? 100 : Math.round(opacity * 100)]} onValueChange={([o]) => apply({ opacity: o / 100 })} />
+          </div>
+        )}
+        {roughness !== undefined && (
+          <div className="space-y-2">
+            <Label className="text-xs">Sloppiness<MixedHint value={roughness} /></Label>
+            <ToggleGroup type="single" size="sm" className="justify-start flex-wrap" value={toggleValue(roughness)} onValueChange={v => v && apply({ roughness: Number(v) })}>
+              {sloppinessLevels.map(s => <ToggleGroupItem key={s.value} value={String(s.value)} className="text-xs">{s.label}</ToggleGroupItem>)}
+            </ToggleGroup>
+          </div>
+        )}
+        {strokeStyle !== undefined && (
+          <div className="space-y-2">
+            <Label className="text-xs">Stroke style<MixedHint value={strokeStyle} /></Label>
+            <ToggleGroup type="single" size="sm" className="justify-start flex-wrap" value={toggleValue(strokeStyle)} onValueChange={(v: StrokeStyle) => v && apply({ strokeStyle: v })}>
+              {strokeStyles.map(s => <ToggleGroupItem key={s.value} value={s.value} className="text-xs">{s.label}</ToggleGroupItem>)}
+            </ToggleGroup>
+          </div>
+        )}
+        {fillStyle !== undefined && (
+          <div className="space-y-2">
+            <Label className="text-xs">Fill<MixedHint value={fillStyle} /></Label>
+            <ToggleGroup type="single" size="sm" className="justify-start flex-wrap" value={toggleValue(fillStyle)} onValueChange={(v: FillStyle) => v && setFillStyle(v)}>
+              {fillStyles.map(f => <ToggleGroupItem key={f.value} value={f.value} className="text-xs">{f.label}</ToggleGroupItem>)}
+            </ToggleGroup>
+            {fillStyle !== 'none' && fillColor !== undefined && <ColorField label="Fill color" value={fillColor} onChange={color => apply({ fillColor: color })} />}
+          </div>
+        )}
+        {roundness !== undefined && (
+          <div className="space-y-2">
+            <Label className="text-xs">Corner roundness {roundness !== MIXED && `(${roundness}px)`}<MixedHint value={roundness} /></Label>
+            <Slider min={0} max={MAX_ROUNDNESS} step={1} value={[roundness === MIXED ? 0 : roundness]} onValueChange={([r]) => apply({ roundness: r })} />
+          </div>
+        )}
+        {startArrowhead !== undefined && endArrowhead !== undefined && (
+          <div className="grid grid-cols-2 gap-2">
+            {([['Start', startArrowhead, 'startArrowhead'], ['End', endArrowhead, 'endArrowhead']] as const).map(([label, current, key]) => (
+              <div key={key} className="space-y-2">
+                <Label className="text-xs">{label}<MixedHint value={current} /></Label>
+                <Select value={toggleValue(current)} onValueChange={(v: Arrowhead) => apply({ [key]: v })}>
+                  <SelectTrigger className="h-8"><SelectValue placeholder="Mixed" /></SelectTrigger>
+                  <SelectContent>{arrowheads.map(a => <SelectItem key={a.value} value={a.value}>{a.label}</SelectItem>)}</SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+        {fontSize !== undefined && fontFamily !== undefined && (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label className="text-xs">Font</Label>
+              <Select value={toggleValue(fontFamily)} onValueChange={v => apply({ fontFamily: v })}>
+                <SelectTrigger className="h-8"><SelectValue placeholder="Mixed" /></SelectTrigger>
+                <SelectContent>{FONT_FAMILIES.map(f => <SelectItem key={f} value={f} style={{ fontFamily: f }}>{f}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs">Size</Label>
+              <Select value={toggleValue(fontSize)} onValueChange={v => apply({ fontSize: Number(v) })}>
+                <SelectTrigger className="h-8"><SelectValue placeholder="Mixed" /></SelectTrigger>
+                <SelectContent>{fontSizes.map(s => <SelectItem key={s} value={String(s)}>{s}px</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Copy, Link2, Trash2 } from 'lucide-react';
+import { toast } from '@/components/ui/sonner';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { DrawingAccessList, Role, ShareLink } from '@shared/types';
+import { SHARE_ROLES } from '@shared/access';
+import { api } from '@/lib/api-client';
+function getShareUrl(drawingId: string, token: string): string {
+  return `${window.location.origin}/?drawing=${encodeURIComponent(drawingId)}&share=${token}`;
+}
+function RoleSelect({ value, onChange }: { value: Role; onChange: (role: Role) => void }) {
+  return (
+    <Select value={value} onValueChange={v => onChange(v as Role)}>
+      <SelectTrigger className="h-8 w-[120px] text-xs capitalize"><SelectValue /></SelectTrigger>
+      <SelectContent>{SHARE_ROLES.map(role => <SelectItem key={role} value={role} className="text-xs capitalize">{role}</SelectItem>)}</SelectContent>
+    </Select>
+  );
+}
+interface ShareDialogProps {
+  drawingId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+// Owner-only: manage who has which role and the links that hand roles out
+export function ShareDialog({ drawingId, open, onOpenChange }: ShareDialogProps) {
+  const [accessList, setAccessList] = useState<DrawingAccessList | null>(null);
+  const [linkRole, setLinkRole] = useState<Role>('viewer');
+  const refresh = useCallback(async () => {
+    setAccessList(await api<DrawingAccessList>(`/api/drawings/${drawingId}/access`));
+  }, [drawingId]);
+  useEffect(() => {
+    if (open) refresh().catch(() => toast.error('Failed to load sharing settings.'));
+  }, [open, refresh]);
+  const run = (action: () => Promise<unknown>, failure: string) => action().then(refresh).catch(() => toast.error(failure));
+  const createLink = () => run(async () => {
+    const link = await api<ShareLink>(`/api/drawings/${drawingId}/share-links`, { method: 'POST', body: JSON.stringify({ role: linkRole }) });
+    await navigator.clipboard?.writeText(getShareUrl(drawingId, link.token));
+    toast.success('Share link copied to clipboard');
+  }, 'Failed to create share link.');
+  const copyLink = (token: string) => {
+    navigator.clipboard?.writeText(getShareUrl(drawingId, token)).then(() => toast.success('Share link copied to clipboard'));
+  };
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader><DialogTitle>Share drawing</DialogTitle></DialogHeader>
+        <div className="space-y-2">
+          <Label>Share links</Label>
+          <div className="flex gap-2">
+            <RoleSelect value={linkRole} onChange={setLinkRole} />
+            <Button size="sm" onClick={createLink}><Link2 className="h-4 w-4 mr-2" />Create link</Button>
+          </div>
+          {accessList?.links.map(link => (
+            <div key={link.token} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 truncate font-mono text-xs text-muted-foreground">…{link.token.slice(-8)}</span>
+              <span className="capitalize text-xs">{link.role}</span>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyLink(link.token)}><Copy className="h-4 w-4" /></Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => run(() => api(`/api/drawings/${drawingId}/share-links/${link.token}`, { method: 'DELETE' }), 'Failed to revoke link.')}>
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <Label>People with access</Label>
+          {accessList?.members.map(member => (
+            <div key={member.userId} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 truncate">{member.name}</span>
+              {member.role === 'owner' ? <span className="text-xs text-muted-foreground">Owner</span> : (
+                <>
+                  <RoleSelect value={member.role} onChange={role => run(() => api(`/api/drawings/${drawingId}/access/${member.userId}`, { method: 'PUT', body: JSON.stringify({ role }) }), 'Failed to change role.')} />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => run(() => api(`/api/drawings/${drawingId}/access/${member.userId}`, { method: 'DELETE' }), 'Failed to remove access.')}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,18 @@
+import React from 'react';
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+export type SyncStatus = 'online' | 'offline' | 'syncing';
+interface SyncIndicatorProps {
+  status: SyncStatus;
+  // Changes not yet confirmed by the server
+  pendingCount: number;
+}
+export function SyncIndicator({ status, pendingCount }: SyncIndicatorProps) {
+  const changes = `${pendingCount} change${pendingCount === 1 ? '' : 's'}`;
+  return (
+    <div className="flex items-center gap-1.5 text-xs text-muted-foreground" aria-live="polite">
+      {status === 'offline' && <><CloudOff className="h-4 w-4 text-amber-500" />Offline{pendingCount > 0 && ` · ${changes} saved locally`}</>}
+      {status === 'syncing' && <><RefreshCw className="h-4 w-4 animate-spin" />Syncing {changes}</>}
+      {status === 'online' && <><Cloud className="h-4 w-4 text-green-600" />All changes saved</>}
+    </div>
+  );
+}
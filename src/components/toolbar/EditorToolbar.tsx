@@ -5,6 +5,7 @@ import {
   Square,
   Circle,
   Minus,
+  ArrowUpRight,
   Type,
   Eraser,
   Hand,
@@ -24,19 +25,29 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import type { Tool, Template } from '@shared/types';
+import { Input } from '@/components/ui/input';
+import type { Tool, Template, Arrowhead } from '@shared/types';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_SCALES, type ExportBackground, type ExportScope, type ExportSettings } from '@/lib/export';
 import { HexColorPicker } from 'react-colorful';
 interface EditorToolbarProps {
   activeTool: Tool;
   onToolChange: (tool: Tool) => void;
   color: string;
   onColorChange: (color: string) => void;
+  roughness: number;
+  onRoughnessChange: (roughness: number) => void;
+  startArrowhead: Arrowhead;
+  endArrowhead: Arrowhead;
+  onStartArrowheadChange: (arrowhead: Arrowhead) => void;
+  onEndArrowheadChange: (arrowhead: Arrowhead) => void;
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
   onSave: () => void;
-  onExport: (format: 'svg' | 'png', resolution?: string) => void;
+  onExport: (format: 'svg' | 'png', settings: ExportSettings) => void;
+  // Enables exporting just the selection
+  hasSelection: boolean;
   showGrid: boolean;
   onToggleGrid: () => void;
   enableSnapping: boolean;
@@ -51,20 +62,44 @@ const tools: { value: Tool; label: string; icon: React.ElementType }[] = [
   { value: 'rectangle', label: 'Rectangle', icon: Square },
   { value: 'ellipse', label: 'Ellipse', icon: Circle },
   { value: 'line', label: 'Line', icon: Minus },
+  { value: 'arrow', label: 'Arrow', icon: ArrowUpRight },
   { value: 'text', label: 'Text', icon: Type },
   { value: 'eraser', label: 'Eraser', icon: Eraser },
 ];
+const sloppinessLevels: { value: number; label: string }[] = [
+  { value: 0, label: 'Architect' },
+  { value: 1, label: 'Artist' },
+  { value: 2, label: 'Cartoonist' },
+];
+const exportBackgrounds: { value: ExportBackground; label: string }[] = [
+  { value: 'white', label: 'White' },
+  { value: 'transparent', label: 'Transparent' },
+  { value: 'theme', label: 'Theme' },
+];
+const arrowheads: { value: Arrowhead; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'triangle', label: 'Triangle' },
+  { value: 'bar', label: 'Bar' },
+  { value: 'dot', label: 'Dot' },
+];
 export function EditorToolbar({
   activeTool,
   onToolChange,
   color,
   onColorChange,
+  roughness,
+  onRoughnessChange,
+  startArrowhead,
+  endArrowhead,
+  onStartArrowheadChange,
+  onEndArrowheadChange,
   onUndo,
   onRedo,
   canUndo,
   canRedo,
   onSave,
   onExport,
+  hasSelection,
   showGrid,
   onToggleGrid,
   enableSnapping,
@@ -72,7 +107,10 @@ export function EditorToolbar({
   templates,
   onLoadTemplate,
 }: EditorToolbarProps) {
-  const [pngResolution, setPngResolution] = useState('1x');
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const updateExportSettings = (updates: Partial<ExportSettings>) => setExportSettings(prev => ({ ...prev, ...updates }));
+  // Falls back to the whole drawing once the selection is gone
+  const settings: ExportSettings = { ...exportSettings, scope: hasSelection ? exportSettings.scope : 'all' };
   return (
     <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10">
       <div className="p-2 rounded-lg shadow-lg bg-card border flex items-center gap-1.5 flex-wrap justify-center">
@@ -96,6 +134,36 @@ export function EditorToolbar({
             </PopoverTrigger>
             <PopoverContent className="w-auto p-0 border-0"><HexColorPicker color={color} onChange={onColorChange} /></PopoverContent>
           </Popover>
+          <Tooltip delayDuration={0}>
+            <Select value={String(roughness)} onValueChange={(v) => onRoughnessChange(Number(v))}>
+              <TooltipTrigger asChild><SelectTrigger className="w-[120px] h-8"><SelectValue /></SelectTrigger></TooltipTrigger>
+              <SelectContent>
+                {sloppinessLevels.map(level => <SelectItem key={level.value} value={String(level.value)}>{level.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <TooltipContent>Sloppiness</TooltipContent>
+          </Tooltip>
+          {activeTool === 'arrow' && (
+            <Popover>
+              <PopoverTrigger asChild><Button variant="outline" size="sm">Heads</Button></PopoverTrigger>
+              <PopoverContent className="w-56">
+                <div className="grid gap-3">
+                  <h4 className="font-medium leading-none">Arrowheads</h4>
+                  {([['Start', startArrowhead, onStartArrowheadChange], ['End', endArrowhead, onEndArrowheadChange]] as const).map(([label, value, onChange]) => (
+                    <div key={label} className="flex items-center justify-between gap-2">
+                      <Label>{label}</Label>
+                      <Select value={value} onValueChange={(v: Arrowhead) => onChange(v)}>
+                        <SelectTrigger className="w-[110px]"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {arrowheads.map(a => <SelectItem key={a.value} value={a.value}>{a.label}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </PopoverContent>
+            </Popover>
+          )}
           <Separator orientation="vertical" className="h-8 mx-1" />
           <Tooltip delayDuration={0}><TooltipTrigger asChild><Button variant="ghost" size="icon" onClick={onUndo} disabled={!canUndo}><Undo className="h-4 w-4" /></Button></TooltipTrigger><TooltipContent>Undo</TooltipContent></Tooltip>
           <Tooltip delayDuration={0}><TooltipTrigger asChild><Button variant="ghost" size="icon" onClick={onRedo} disabled={!canRedo}><Redo className="h-4 w-4" /></Button></TooltipTrigger><TooltipContent>Redo</TooltipContent></Tooltip>
@@ -103,20 +171,42 @@ export function EditorToolbar({
           <Tooltip delayDuration={0}><TooltipTrigger asChild><Button variant="ghost" size="icon" onClick={onSave}><Save className="h-4 w-4" /></Button></TooltipTrigger><TooltipContent>Save</TooltipContent></Tooltip>
           <Popover>
             <PopoverTrigger asChild><Button variant="outline">Export <Download className="ml-2 h-4 w-4" /></Button></PopoverTrigger>
-            <PopoverContent className="w-48">
+            <PopoverContent className="w-64">
               <div className="grid gap-4">
                 <div className="space-y-2"><h4 className="font-medium leading-none">Export</h4><p className="text-sm text-muted-foreground">Download your drawing.</p></div>
-                <Button variant="outline" onClick={() => onExport('svg')}>Export as SVG</Button>
-                <div className="flex items-center gap-2">
-                  <Button variant="outline" className="flex-1" onClick={() => onExport('png', pngResolution)}>Export as PNG</Button>
-                  <Select value={pngResolution} onValueChange={setPngResolution}>
-                    <SelectTrigger className="w-[60px]"><SelectValue /></SelectTrigger>
+                <div className="grid grid-cols-2 items-center gap-2">
+                  <Label>Scope</Label>
+                  <Select value={settings.scope} onValueChange={(scope: ExportScope) => updateExportSettings({ scope })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All elements</SelectItem>
+                      <SelectItem value="selection" disabled={!hasSelection}>Selection</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Label>Background</Label>
+                  <Select value={settings.background} onValueChange={(background: ExportBackground) => updateExportSettings({ background })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {exportBackgrounds.map(({ value, label }) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Label htmlFor="export-padding">Padding</Label>
+                  <Input id="export-padding" type="number" min={0} max={500} value={settings.padding} onChange={e => updateExportSettings({ padding: Math.max(0, Math.min(500, Number(e.target.value) || 0)) })} />
+                  <Label>Scale</Label>
+                  <Select value={String(settings.scale)} onValueChange={value => updateExportSettings({ scale: Number(value) })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="1x">1x</SelectItem>
-                      <SelectItem value="2x">2x</SelectItem>
+                      {EXPORT_SCALES.map(scale => <SelectItem key={scale} value={String(scale)}>{scale}x</SelectItem>)}
                     </SelectContent>
                   </Select>
+                  <Label htmlFor="export-embed-scene">Editable</Label>
+                  <Switch id="export-embed-scene" checked={settings.embedScene} onCheckedChange={embedScene => updateExportSettings({ embedScene })} />
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" className="flex-1" onClick={() => onExport('svg', settings)}>SVG</Button>
+                  <Button variant="outline" className="flex-1" onClick={() => onExport('png', settings)}>PNG</Button>
                 </div>
+                <p className="text-xs text-muted-foreground">Web fonts are fetched from Google Fonts, which is sent the characters of your text to embed only those.</p>
               </div>
             </PopoverContent>
           </Popover>
@@ -0,0 +1,26 @@
+import React from 'react';
+import { ZoomIn, ZoomOut, Maximize, Scan } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+interface ZoomControlsProps {
+  zoom: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onResetZoom: () => void;
+  onZoomToFit: () => void;
+  onZoomToSelection: () => void;
+  hasSelection: boolean;
+}
+export function ZoomControls({ zoom, onZoomIn, onZoomOut, onResetZoom, onZoomToFit, onZoomToSelection, hasSelection }: ZoomControlsProps) {
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-card/80 backdrop-blur-sm p-1 rounded-lg border shadow-sm flex items-center gap-1">
+      <TooltipProvider>
+        <Tooltip delayDuration={0}><TooltipTrigger asChild><Button variant="ghost" size="icon" className="h-8 w-8" onClick={onZoomOut}><ZoomOut className="h-4 w-4" /></Button></TooltipTrigger><TooltipContent>Zoom out</TooltipContent></Tooltip>
+        <Tooltip delayDuration={0}><TooltipTrigger asChild><Button variant="ghost" className="h-8 px-2 text-xs tabular-nums min-w-[56px]" onClick={onResetZoom}>{Math.round(zoom * 100)}%</Button></TooltipTrigger><TooltipContent>Reset zoom</TooltipContent></Tooltip>
+        <Tooltip delayDuration={0}><TooltipTrigger asChild><Button variant="ghost" size="icon" className="h-8 w-8" onClick={onZoomIn}><ZoomIn className="h-4 w-4" /></Button></TooltipTrigger><TooltipContent>Zoom in</TooltipContent></Tooltip>
+        <Tooltip delayDuration={0}><TooltipTrigger asChild><Button variant="ghost" size="icon" className="h-8 w-8" onClick={onZoomToFit}><Maximize className="h-4 w-4" /></Button></TooltipTrigger><TooltipContent>Zoom to fit all</TooltipContent></Tooltip>
+        <Tooltip delayDuration={0}><TooltipTrigger asChild><Button variant="ghost" size="icon" className="h-8 w-8" onClick={onZoomToSelection} disabled={!hasSelection}><Scan className="h-4 w-4" /></Button></TooltipTrigger><TooltipContent>Zoom to selection</TooltipContent></Tooltip>
+      </TooltipProvider>
+    </div>
+  );
+}
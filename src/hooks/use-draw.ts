@@ -1,52 +1,146 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { produce } from 'immer';
 import { v4 as uuidv4 } from 'uuid';
-import type { Drawing, DrawingElement, Tool, Point, Op, RectangleElement, EllipseElement, LineElement, ArrowElement, TextElement } from '@shared/types';
-import { simplifyPoints, smoothPath, applyOpsToElements, generateOp } from '@/lib/drawing';
+import type { Drawing, DrawingElement, Tool, Point, Op, AppendOpsResult, RectangleElement, EllipseElement, LineElement, ArrowElement, TextElement, ElementStyleOptions } from '@shared/types';
+import { hasRole } from '@shared/access';
+import { generateSeed } from '@/lib/rough';
+import { simplifyPoints, smoothPath, applyOpsToElements, generateOp, generateBatchOp, coalesceOps, diffElements, stampLocalOps, observeOps, getTopIndexes, getMoveOps, isLinearElement, getAbsolutePoints, getLinearGeometry, getArrowBindingUpdate } from '@/lib/drawing';
+import { acknowledgeAppend, createSyncState, loadSnapshotState, mergeSequencedOps, queueLocalOps, type SyncState } from '@/lib/sync';
 const UNDO_LIMIT = 100;
+const PASTE_OFFSET = 16;
+// A lone op needs no batch wrapper
+function toSingleOp(ops: Op[]): Op {
+  return ops.length === 1 ? ops[0] : generateBatchOp(ops);
+}
+// Scene the confirmed log starts from: the server snapshot, or nothing for drawings that still carry their whole log
+function getBaseElements(drawing: Drawing): DrawingElement[] {
+  return drawing.ops?.length ? [] : drawing.elements;
+}
 export function useDraw(initialDrawing: Drawing) {
   const [drawing, setDrawing] = useState<Drawing>(initialDrawing);
-  const [opHistory, setOpHistory] = useState<Op[]>(initialDrawing.ops || []);
-  const [historyIndex, setHistoryIndex] = useState(initialDrawing.ops?.length || 0);
+  // The server's op log in sequence order, contiguous up to `lastSeqRef`
+  const [baseElements, setBaseElements] = useState<DrawingElement[]>(() => getBaseElements(initialDrawing));
+  const [confirmedOps, setConfirmedOps] = useState<Op[]>(initialDrawing.ops || []);
+  // Own ops not yet seen in the sequenced log, always applied on top of it
+  const [localOps, setLocalOps] = useState<Op[]>([]);
+  // Local ops the server has accepted but that are still waiting for their place in the confirmed log
+  const [sentOpIds, setSentOpIds] = useState<Set<string>>(() => new Set());
+  // Undo/redo hold inverse ops of this user's own changes only; remote ops never enter them
+  const [undoStack, setUndoStack] = useState<Op[]>([]);
+  const [redoStack, setRedoStack] = useState<Op[]>([]);
+  const lastSeqRef = useRef(initialDrawing.opVersion || 0);
   const [localCursor, setLocalCursor] = useState<Point | null>(null);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
-  const currentElements = useMemo(() => {
-    const safeHistory = opHistory || [];
-    return applyOpsToElements(safeHistory.slice(0, historyIndex));
-  }, [opHistory, historyIndex]);
+  // Ops of the gesture in progress: rendered locally, but neither recorded nor synced until the gesture ends
+  const [gestureOps, setGestureOps] = useState<Op[]>([]);
+  const gestureOpsRef = useRef<Op[] | null>(null);
+  const clipboardRef = useRef<{ elements: DrawingElement[]; pasteCount: number } | null>(null);
+  const confirmedElements = useMemo(() => applyOpsToElements(confirmedOps, baseElements), [confirmedOps, baseElements]);
+  const committedElements = useMemo(() => localOps.length > 0 ? applyOpsToElements(localOps, confirmedElements) : confirmedElements, [localOps, confirmedElements]);
+  const currentElements = useMemo(() => gestureOps.length > 0 ? applyOpsToElements(gestureOps, committedElements) : committedElements, [gestureOps, committedElements]);
+  const pendingOps = useMemo(() => localOps.filter(op => !sentOpIds.has(op.id)), [localOps, sentOpIds]);
+  // Mirrors of the sync state for handlers that run several times before React re-renders
   const elementsRef = useRef(currentElements);
+  const committedElementsRef = useRef(committedElements);
+  const confirmedElementsRef = useRef(confirmedElements);
+  const localOpsRef = useRef(localOps);
+  const sentOpIdsRef = useRef(sentOpIds);
+  // Viewers and commenters can look around but every edit path stops here
+  const canEditRef = useRef(true);
   useEffect(() => {
     elementsRef.current = currentElements;
-  }, [currentElements]);
+    committedElementsRef.current = committedElements;
+    confirmedElementsRef.current = confirmedElements;
+    localOpsRef.current = localOps;
+    sentOpIdsRef.current = sentOpIds;
+    canEditRef.current = hasRole(drawing.role ?? 'editor', 'editor');
+  }, [drawing.role, currentElements, committedElements, confirmedElements, localOps, sentOpIds]);
   const selectedElements = useMemo(() => currentElements.filter(el => selectedIds.includes(el.id)), [currentElements, selectedIds]);
+  // The sync state lives in the mirrors; the React state follows it
+  const getSyncState = useCallback((): SyncState => ({
+    lastSeq: lastSeqRef.current, confirmed: confirmedElementsRef.current, local: localOpsRef.current, committed: committedElementsRef.current, sent: sentOpIdsRef.current,
+  }), []);
+  const setSyncState = useCallback((state: SyncState) => {
+    lastSeqRef.current = state.lastSeq;
+    confirmedElementsRef.current = state.confirmed;
+    localOpsRef.current = state.local;
+    committedElementsRef.current = state.committed;
+    sentOpIdsRef.current = state.sent;
+    setLocalOps(state.local);
+    setSentOpIds(state.sent);
+  }, []);
   const setDrawingAndOps = useCallback((newDrawing: Drawing) => {
     setDrawing(newDrawing);
     const newOps = newDrawing.ops || [];
-    setOpHistory(newOps);
-    setHistoryIndex(newOps.length);
+    observeOps(newOps);
+    // The mirrors switch drawings right away, so ops restored in the same tick queue on top of the new scene
+    const confirmed = applyOpsToElements(newOps, getBaseElements(newDrawing));
+    setSyncState(createSyncState(newDrawing.opVersion || newOps.length, confirmed));
+    elementsRef.current = confirmed;
+    gestureOpsRef.current = null;
+    setGestureOps([]);
+    setBaseElements(getBaseElements(newDrawing));
+    setConfirmedOps(newOps);
+    setUndoStack([]);
+    setRedoStack([]);
     setSelectedIds([]);
-  }, []);
-  const dispatchOp = useCallback((op: Op) => {
-    const currentHistory = opHistory || [];
-    const newHistory = currentHistory.slice(0, historyIndex);
-    newHistory.push(op);
-    if (newHistory.length > UNDO_LIMIT) {
-      newHistory.shift();
+  }, [setSyncState]);
+  // Applies own ops, queues them for sync and returns the op that would revert them
+  const appendLocalOps = useCallback((ops: Op[]): Op | null => {
+    if (ops.length === 0 || !canEditRef.current) return null;
+    const before = committedElementsRef.current;
+    const state = queueLocalOps(getSyncState(), stampLocalOps(ops, before));
+    setSyncState(state);
+    const inverse = diffElements(state.committed, before);
+    return inverse.length > 0 ? toSingleOp(inverse) : null;
+  }, [getSyncState, setSyncState]);
+  const commitOps = useCallback((ops: Op[]) => {
+    const inverse = appendLocalOps(ops);
+    if (!inverse) return;
+    setUndoStack(prev => [...prev, inverse].slice(-UNDO_LIMIT));
+    setRedoStack([]);
+  }, [appendLocalOps]);
+  const dispatchOps = useCallback((ops: Op[]) => {
+    if (ops.length === 0 || !canEditRef.current) return;
+    if (gestureOpsRef.current) {
+      gestureOpsRef.current = coalesceOps([...gestureOpsRef.current, ...ops]);
+      setGestureOps(gestureOpsRef.current);
+      return;
     }
-    setOpHistory(newHistory);
-    setHistoryIndex(newHistory.length);
-  }, [opHistory, historyIndex]);
+    commitOps(ops);
+  }, [commitOps]);
+  const dispatchOp = useCallback((op: Op) => dispatchOps([op]), [dispatchOps]);
+  // Drags, resizes, rotations and erasing run as gestures: one undo step and one synced op when the pointer is released
+  const beginGesture = useCallback(() => {
+    gestureOpsRef.current = [];
+    setGestureOps([]);
+  }, []);
+  const endGesture = useCallback(() => {
+    const ops = gestureOpsRef.current;
+    gestureOpsRef.current = null;
+    setGestureOps([]);
+    if (ops && ops.length > 0) commitOps([toSingleOp(ops)]);
+  }, [commitOps]);
+  const cancelGesture = useCallback(() => {
+    gestureOpsRef.current = null;
+    setGestureOps([]);
+  }, []);
+  // Undo and redo dispatch the stored inverse as a new op, and keep its own inverse for the opposite stack
   const undo = useCallback(() => {
-    if (historyIndex > 0) {
-      setHistoryIndex(prev => prev - 1);
-    }
-  }, [historyIndex]);
+    const op = undoStack[undoStack.length - 1];
+    if (!op) return;
+    const inverse = appendLocalOps([op]);
+    setUndoStack(prev => prev.slice(0, -1));
+    if (inverse) setRedoStack(prev => [...prev, inverse]);
+  }, [undoStack, appendLocalOps]);
   const redo = useCallback(() => {
-    if (historyIndex < (opHistory?.length || 0)) {
-      setHistoryIndex(prev => prev + 1);
-    }
-  }, [historyIndex, opHistory]);
-  const createElement = (tool: Tool, start: Point, end: Point, options: { color: string; strokeWidth: number }): void => {
+    const op = redoStack[redoStack.length - 1];
+    if (!op) return;
+    const inverse = appendLocalOps([op]);
+    setRedoStack(prev => prev.slice(0, -1));
+    if (inverse) setUndoStack(prev => [...prev, inverse].slice(-UNDO_LIMIT));
+  }, [redoStack, appendLocalOps]);
+  const createElement = (tool: Tool, start: Point, end: Point, options: ElementStyleOptions): void => {
     const base = {
       id: uuidv4(),
       x: Math.min(start.x, end.x),
@@ -56,31 +150,37 @@ export function useDraw(initialDrawing: Drawing) {
       angle: 0,
       strokeColor: options.color,
       strokeWidth: options.strokeWidth,
-      opacity: 1,
+      opacity: options.opacity,
+      roughness: options.roughness,
+      seed: generateSeed(),
+      index: getTopIndexes(elementsRef.current, 1)[0],
     };
     let element: DrawingElement | null = null;
     switch (tool) {
       case 'rectangle':
-        element = { ...base, type: 'rectangle', fillColor: 'transparent', strokeStyle: 'solid' };
+        element = { ...base, type: 'rectangle', fillColor: options.fillColor, fillStyle: options.fillStyle, strokeStyle: options.strokeStyle, roundness: options.roundness };
         break;
       case 'ellipse':
-        element = { ...base, type: 'ellipse', fillColor: 'transparent', strokeStyle: 'solid' };
+        element = { ...base, type: 'ellipse', fillColor: options.fillColor, fillStyle: options.fillStyle, strokeStyle: options.strokeStyle };
         break;
       case 'line':
-        element = { ...base, type: 'line', points: [{ x: start.x - base.x, y: start.y - base.y }, { x: end.x - base.x, y: end.y - base.y }] };
+        element = { ...base, type: 'line', points: [{ x: start.x - base.x, y: start.y - base.y }, { x: end.x - base.x, y: end.y - base.y }], startArrowhead: 'none', endArrowhead: 'none' };
         break;
       case 'arrow':
-        element = { ...base, type: 'arrow', points: [{ x: start.x - base.x, y: start.y - base.y }, { x: end.x - base.x, y: end.y - base.y }] };
+        element = { ...base, type: 'arrow', points: [{ x: start.x - base.x, y: start.y - base.y }, { x: end.x - base.x, y: end.y - base.y }], startArrowhead: options.startArrowhead ?? 'none', endArrowhead: options.endArrowhead ?? 'triangle' };
         break;
       case 'text':
-        element = { ...base, type: 'text', text: 'Text', fontSize: 24, fontFamily: 'Inter', width: Math.max(base.width, 100), height: Math.max(base.height, 30) };
+        element = { ...base, type: 'text', text: 'Text', fontSize: options.fontSize, fontFamily: options.fontFamily, width: Math.max(base.width, 100), height: Math.max(base.height, 30) };
         break;
     }
+    if (element?.type === 'arrow') {
+      element = { ...element, ...getArrowBindingUpdate(element, elementsRef.current) };
+    }
     if (element) {
       dispatchOp(generateOp('add', undefined, element));
     }
   };
-  const createStroke = (points: Point[], options: { color: string; strokeWidth: number }): void => {
+  const createStroke = (points: Point[], options: ElementStyleOptions): void => {
     if (points.length < 2) return;
     const simplified = simplifyPoints(points, 1);
     const smoothed = smoothPath(simplified);
@@ -98,18 +198,45 @@ export function useDraw(initialDrawing: Drawing) {
       angle: 0,
       strokeColor: options.color,
       strokeWidth: options.strokeWidth,
-      opacity: 1,
+      opacity: options.opacity,
+      roughness: options.roughness,
+      seed: generateSeed(),
+      index: getTopIndexes(elementsRef.current, 1)[0],
       points: smoothed.map(p => ({ x: p.x - minX, y: p.y - minY })),
     };
     dispatchOp(generateOp('add', undefined, strokeElement));
   };
-  const mergeRemoteOps = useCallback((ops: Op[]) => {
-    if (ops.length === 0) return;
-    const current = opHistory || [];
-    const newHistory = [...current, ...ops];
-    setOpHistory(newHistory);
-    setHistoryIndex(newHistory.length);
-  }, [opHistory]);
+  const applyMerge = useCallback(({ state, accepted }: { state: SyncState; accepted: Op[] }) => {
+    setSyncState(state);
+    if (accepted.length === 0) return;
+    observeOps(accepted);
+    setConfirmedOps(prev => [...prev, ...accepted]);
+    setDrawing(prev => ({ ...prev, opVersion: state.lastSeq }));
+  }, [setSyncState]);
+  // Appends sequenced ops to the confirmed log and rebases unconfirmed local ops on top; returns how many came from others
+  const mergeRemoteOps = useCallback((ops: Op[]): number => {
+    const merged = mergeSequencedOps(getSyncState(), ops);
+    if (merged.accepted.length > 0) applyMerge(merged);
+    return merged.foreignCount;
+  }, [getSyncState, applyMerge]);
+  const loadSnapshot = useCallback((snapshot: Drawing) => {
+    setSyncState(loadSnapshotState(getSyncState(), snapshot));
+    setBaseElements(snapshot.elements);
+    setConfirmedOps([]);
+    setDrawing(prev => ({ ...prev, opVersion: snapshot.opVersion }));
+  }, [getSyncState, setSyncState]);
+  const acknowledgeOps = useCallback((result: AppendOpsResult) => {
+    result.rejected.forEach(({ opId, reason, dropped }) => console.warn(`Op ${opId} was ${dropped ? 'refused' : 'stored but not applied'}: ${reason}`));
+    applyMerge(acknowledgeAppend(getSyncState(), result));
+  }, [getSyncState, applyMerge]);
+  // Puts ops saved before a reload or while offline back in the queue; they are already stamped and get sent again as they are
+  const restoreLocalOps = useCallback((ops: Op[]) => {
+    const current = getSyncState();
+    const state = queueLocalOps(current, ops);
+    if (state === current) return;
+    observeOps(ops);
+    setSyncState(state);
+  }, [getSyncState, setSyncState]);
   const onSelect = useCallback((id: string, multi: boolean) => {
     setSelectedIds(prev => {
       if (multi) {
@@ -119,13 +246,72 @@ export function useDraw(initialDrawing: Drawing) {
     });
   }, []);
   const onDeselectAll = useCallback(() => setSelectedIds([]), []);
+  const deleteElements = useCallback((ids: string[]) => {
+    if (ids.length === 0) return;
+    dispatchOp(toSingleOp(ids.map(id => generateOp('delete', id))));
+    setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+  }, [dispatchOp]);
+  const copySelected = useCallback(() => {
+    const copied = elementsRef.current.filter(el => selectedIds.includes(el.id));
+    if (copied.length > 0) clipboardRef.current = { elements: copied, pasteCount: 0 };
+    return copied.length;
+  }, [selectedIds]);
+  // Adds elements on top of the scene with fresh ids and an offset, keeping arrow bindings only between the added elements,
+  // and selects them
+  const insertElements = useCallback((elements: DrawingElement[], offset = 0) => {
+    const idMap = new Map(elements.map(el => [el.id, uuidv4()]));
+    const remapBinding = (binding: ArrowElement['startBinding']) => binding && idMap.has(binding.elementId) ? { ...binding, elementId: idMap.get(binding.elementId)! } : null;
+    const indexes = getTopIndexes(elementsRef.current, elements.length);
+    const inserted = elements.map((el, i) => {
+      const copy = { ...el, id: idMap.get(el.id)!, x: el.x + offset, y: el.y + offset, seed: generateSeed(), index: indexes[i], stamps: undefined } as DrawingElement;
+      return copy.type === 'arrow' ? { ...copy, startBinding: remapBinding(copy.startBinding), endBinding: remapBinding(copy.endBinding) } : copy;
+    });
+    if (inserted.length === 0) return 0;
+    dispatchOp(toSingleOp(inserted.map(el => generateOp('add', undefined, el))));
+    setSelectedIds(inserted.map(el => el.id));
+    return inserted.length;
+  }, [dispatchOp]);
+  // Pastes the copied elements with a growing offset
+  const paste = useCallback(() => {
+    const clipboard = clipboardRef.current;
+    if (!clipboard) return 0;
+    clipboard.pasteCount += 1;
+    return insertElements(clipboard.elements, PASTE_OFFSET * clipboard.pasteCount);
+  }, [insertElements]);
+  // Returns to an earlier scene through ordinary ops: the restore is undoable and the history after it stays in the log
+  const restoreElements = useCallback((target: DrawingElement[]) => {
+    const ops = diffElements(committedElementsRef.current, target);
+    if (ops.length > 0) dispatchOp(toSingleOp(ops));
+    setSelectedIds([]);
+  }, [dispatchOp]);
+  const moveElement = useCallback((elementId: string, position: number) => {
+    const ops = getMoveOps(elementsRef.current, elementId, position);
+    if (ops.length > 0) dispatchOp(toSingleOp(ops));
+  }, [dispatchOp]);
+  const selectElements = useCallback((ids: string[]) => setSelectedIds(ids), []);
+  const selectAll = useCallback(() => setSelectedIds(elementsRef.current.filter(el => el.opacity !== 0).map(el => el.id)), []);
   const onDragMove = useCallback((delta: Point) => {
     if (selectedIds.length === 0) return;
     const elementsToUpdate = elementsRef.current.filter(el => selectedIds.includes(el.id));
-    elementsToUpdate.forEach(el => {
-      dispatchOp(generateOp('update', el.id, { x: el.x + delta.x, y: el.y + delta.y }));
+    dispatchOps(elementsToUpdate.map(el => {
+      const updates: Partial<ArrowElement> = { x: el.x + delta.x, y: el.y + delta.y };
+      // An arrow dragged away from its target detaches; one moved together with it stays bound
+      if (el.type === 'arrow') {
+        if (el.startBinding && !selectedIds.includes(el.startBinding.elementId)) updates.startBinding = null;
+        if (el.endBinding && !selectedIds.includes(el.endBinding.elementId)) updates.endBinding = null;
+      }
+      return generateOp('update', el.id, updates);
+    }));
+  }, [selectedIds, dispatchOps]);
+  // Per-element updates so one edit can touch a mixed selection in a single batch; null skips an element
+  const updateSelectedElements = useCallback((getUpdates: (el: DrawingElement) => Partial<DrawingElement> | null) => {
+    const ops: Op[] = [];
+    elementsRef.current.forEach(el => {
+      const updates = selectedIds.includes(el.id) ? getUpdates(el) : null;
+      if (updates && Object.keys(updates).length > 0) ops.push(generateOp('update', el.id, updates));
     });
-  }, [selectedIds, dispatchOp]);
+    dispatchOps(ops);
+  }, [selectedIds, dispatchOps]);
   const onResize = useCallback((handle: string, delta: Point, elementId: string) => {
     const el = elementsRef.current.find(e => e.id === elementId);
     if (!el) return;
@@ -135,29 +321,79 @@ export function useDraw(initialDrawing: Drawing) {
     if (handle.includes('bottom')) height += delta.y;
     if (handle.includes('top')) { y += delta.y; height -= delta.y; }
     if (width > 10 && height > 10) {
-      dispatchOp(generateOp('update', elementId, { x, y, width, height }));
+      if ('points' in el) {
+        // Scale the path along with its box; a zero-size axis (e.g. a horizontal line) stays flat
+        const scaleX = el.width > 0 ? width / el.width : 1;
+        const scaleY = el.height > 0 ? height / el.height : 1;
+        const points = el.points.map(p => ({ x: p.x * scaleX, y: p.y * scaleY }));
+        dispatchOp(generateOp('update', elementId, { x, y, width, height, points }));
+      } else {
+        dispatchOp(generateOp('update', elementId, { x, y, width, height }));
+      }
     }
   }, [dispatchOp]);
+  const updateLinearPoints = useCallback((elementId: string, transform: (points: Point[]) => Point[] | null, rebind: ('start' | 'end')[] = []) => {
+    const el = elementsRef.current.find(e => e.id === elementId);
+    if (!el || !isLinearElement(el)) return;
+    const points = transform(getAbsolutePoints(el));
+    if (!points) return;
+    const geometry = getLinearGeometry(points);
+    const updates = el.type === 'arrow' && rebind.length > 0 ? { ...geometry, ...getArrowBindingUpdate({ ...el, ...geometry }, elementsRef.current, rebind) } : geometry;
+    dispatchOp(generateOp('update', elementId, updates));
+  }, [dispatchOp]);
+  const onMovePoint = useCallback((elementId: string, index: number, point: Point) => {
+    const el = elementsRef.current.find(e => e.id === elementId);
+    const lastIndex = el && isLinearElement(el) ? el.points.length - 1 : -1;
+    const rebind: ('start' | 'end')[] = index === 0 ? ['start'] : index === lastIndex ? ['end'] : [];
+    updateLinearPoints(elementId, points => points.map((p, i) => i === index ? point : p), rebind);
+  }, [updateLinearPoints]);
+  const onInsertPoint = useCallback((elementId: string, index: number, point: Point) => {
+    updateLinearPoints(elementId, points => [...points.slice(0, index), point, ...points.slice(index)]);
+  }, [updateLinearPoints]);
+  const onRemovePoint = useCallback((elementId: string, index: number) => {
+    updateLinearPoints(elementId, points => points.length > 2 ? points.filter((_, i) => i !== index) : null);
+  }, [updateLinearPoints]);
   return {
     drawing,
     elements: currentElements,
     setDrawing: setDrawingAndOps,
     undo,
     redo,
-    canUndo: historyIndex > 0,
-    canRedo: historyIndex < (opHistory?.length || 0),
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
     createElement,
     createStroke,
     dispatchOp,
+    dispatchOps,
+    beginGesture,
+    endGesture,
+    cancelGesture,
+    deleteElements,
+    copySelected,
+    insertElements,
+    paste,
+    updateSelectedElements,
     mergeRemoteOps,
-    pendingOps: (opHistory || []).slice(drawing.opVersion),
+    pendingOps,
+    localOps,
+    confirmedElements,
+    acknowledgeOps,
+    restoreLocalOps,
+    loadSnapshot,
     localCursor,
     setLocalCursor,
     selectedIds,
     selectedElements,
     onSelect,
     onDeselectAll,
+    selectElements,
+    selectAll,
     onDragMove,
     onResize,
+    onMovePoint,
+    onInsertPoint,
+    onRemovePoint,
+    moveElement,
+    restoreElements,
   };
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Checkpoint, CheckpointList, DrawingElement, HistoryScene } from '@shared/types';
+import { api } from '@/lib/api-client';
+// Checkpoints and scrubbed scenes of the open drawing, fetched only while the history panel is shown
+export function useHistory(drawingId: string | null, open: boolean) {
+  const [history, setHistory] = useState<CheckpointList | null>(null);
+  const [checkpointScenes, setCheckpointScenes] = useState<Record<string, DrawingElement[]>>({});
+  const [preview, setPreview] = useState<HistoryScene | null>(null);
+  // The scene at a seq never changes, so each one is fetched once per drawing and refreshes only fetch new checkpoints
+  const sceneCacheRef = useRef(new Map<number, DrawingElement[]>());
+  useEffect(() => {
+    sceneCacheRef.current = new Map();
+    setHistory(null);
+    setCheckpointScenes({});
+    setPreview(null);
+  }, [drawingId]);
+  const refresh = useCallback(async () => {
+    if (!drawingId) return;
+    const cache = sceneCacheRef.current;
+    const list = await api<CheckpointList>(`/api/drawings/${drawingId}/checkpoints`);
+    if (cache !== sceneCacheRef.current) return;
+    setHistory(list);
+    const missing = [...new Map(list.checkpoints.filter(cp => !cache.has(cp.seq)).map(cp => [cp.seq, cp])).values()];
+    const scenes = await Promise.all(missing.map(cp => api<{ checkpoint: Checkpoint; elements: DrawingElement[] }>(`/api/drawings/${drawingId}/checkpoints/${cp.id}`)));
+    // Another drawing was opened meanwhile
+    if (cache !== sceneCacheRef.current) return;
+    scenes.forEach(({ checkpoint, elements }) => cache.set(checkpoint.seq, elements));
+    setCheckpointScenes(Object.fromEntries(list.checkpoints.flatMap(cp => cache.has(cp.seq) ? [[cp.id, cache.get(cp.seq)!]] : [])));
+  }, [drawingId]);
+  useEffect(() => {
+    if (open) refresh().catch(console.error);
+  }, [open, refresh]);
+  const saveCheckpoint = useCallback(async (name: string) => {
+    if (!drawingId) return;
+    await api<Checkpoint>(`/api/drawings/${drawingId}/checkpoints`, { method: 'POST', body: JSON.stringify({ name }) });
+    await refresh();
+  }, [drawingId, refresh]);
+  const previewSeq = useCallback(async (seq: number) => {
+    if (!drawingId) return;
+    setPreview(await api<HistoryScene>(`/api/drawings/${drawingId}/history?seq=${seq}`));
+  }, [drawingId]);
+  return { history, checkpointScenes, preview, refresh, saveCheckpoint, previewSeq };
+}
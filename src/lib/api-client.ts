@@ -1,7 +1,50 @@
-import { ApiResponse } from "../../shared/types"
+import { ApiErrorCode, ApiIssue, ApiResponse } from "../../shared/types"
+// A failed request, with the worker's error code so callers can tell validation, permission and missing-resource failures apart
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code: ApiErrorCode, public readonly issues: ApiIssue[] = []) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+// Fallback for responses that don't carry a code, such as the worker's generic 404 and 500 handlers
+function codeForStatus(status: number): ApiErrorCode {
+  switch (status) {
+    case 400: return 'validation';
+    case 401: return 'unauthorized';
+    case 403: return 'forbidden';
+    case 404: return 'not_found';
+    case 409: return 'conflict';
+    case 413: return 'payload_too_large';
+    default: return 'internal';
+  }
+}
+const SESSION_TOKEN_KEY = 'leveragecanvas:session';
+export const LOGIN_PATH = '/login';
+// Sent as a bearer token with every request; kept in localStorage so sessions survive reloads
+export function getSessionToken(): string | null {
+  return localStorage.getItem(SESSION_TOKEN_KEY);
+}
+export function setSessionToken(token: string | null) {
+  if (token) localStorage.setItem(SESSION_TOKEN_KEY, token);
+  else localStorage.removeItem(SESSION_TOKEN_KEY);
+}
+// Sends the browser to the login page, coming back to the current page (share link included) afterwards
+export function redirectToLogin() {
+  if (window.location.pathname === LOGIN_PATH) return;
+  const next = window.location.pathname + window.location.search;
+  window.location.assign(`${LOGIN_PATH}?next=${encodeURIComponent(next)}`);
+}
 export async function api<T>(path: string, init?: RequestInit): Promise<T> {
   try {
-    const res = await fetch(path, { headers: { 'Content-Type': 'application/json' }, ...init });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const token = getSessionToken();
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(path, { headers, ...init });
+    // A missing or expired session; the auth routes answer 401 for bad credentials, which the login form shows instead
+    if (res.status === 401 && !path.startsWith('/api/auth/')) {
+      setSessionToken(null);
+      redirectToLogin();
+    }
     if (!res.ok) {
       let errorMsg = `Request failed with status ${res.status}`;
       let errorBody: any = null;
@@ -19,7 +62,7 @@ export async function api<T>(path: string, init?: RequestInit): Promise<T> {
         }
       }
       console.error(`API Error Details - Path: ${path}, Status: ${res.status}, Response:`, errorBody || 'No body');
-      throw new Error(errorMsg);
+      throw new ApiError(errorMsg, res.status, errorBody?.code ?? codeForStatus(res.status), errorBody?.issues);
     }
     const json = (await res.json()) as ApiResponse<T>;
     if (!json.success || json.data === undefined) {
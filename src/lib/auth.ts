@@ -0,0 +1,35 @@
+import type { AuthSession, User } from '@shared/types';
+import { api, ApiError, getSessionToken, setSessionToken, redirectToLogin } from '@/lib/api-client';
+const USER_KEY = 'leveragecanvas:user';
+export async function signIn(username: string, password: string): Promise<User> {
+  const session = await api<AuthSession>('/api/auth/login', { method: 'POST', body: JSON.stringify({ username, password }) });
+  setSessionToken(session.token);
+  return session.user;
+}
+export async function signUp(username: string, password: string, name?: string): Promise<User> {
+  const session = await api<AuthSession>('/api/auth/signup', { method: 'POST', body: JSON.stringify({ username, password, name }) });
+  setSessionToken(session.token);
+  return session.user;
+}
+export function signOut() {
+  setSessionToken(null);
+  localStorage.removeItem(USER_KEY);
+  redirectToLogin();
+}
+// The signed-in user, or null after sending the browser to the login page.
+// Offline, the user from the last successful check stands in so cached drawings can still be opened.
+export async function getCurrentUser(): Promise<User | null> {
+  if (!getSessionToken()) {
+    redirectToLogin();
+    return null;
+  }
+  try {
+    const user = await api<User>('/api/me');
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+    return user;
+  } catch (error) {
+    const cached = localStorage.getItem(USER_KEY);
+    if (error instanceof ApiError || !cached) throw error;
+    return JSON.parse(cached) as User;
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { DrawingElement, Op } from '@shared/types';
+import { applyOpsToElements, diffElements, generateOp, stampLocalOps } from '@/lib/drawing';
+
+const base = { y: 0, width: 40, height: 30, angle: 0, strokeColor: '#1e1e1e', strokeWidth: 2, opacity: 1 };
+const before: DrawingElement[] = [
+  { ...base, id: 'r0', type: 'rectangle', x: 0, fillColor: 'transparent', strokeStyle: 'solid', index: 'a0' },
+  { ...base, id: 'r1', type: 'rectangle', x: 200, fillColor: 'transparent', strokeStyle: 'solid', index: 'a1' },
+  { ...base, id: 'arrow', type: 'arrow', x: 40, y: 15, width: 160, height: 0, index: 'a2', points: [{ x: 0, y: 0 }, { x: 160, y: 0 }] },
+];
+// A gesture that rounds a corner and binds the arrow, adding properties `before` doesn't have
+const after = applyOpsToElements([
+  generateOp('update', 'r0', { roundness: 8, roughness: 1 }),
+  generateOp('update', 'arrow', { startArrowhead: 'dot', startBinding: { elementId: 'r0', focus: { x: 1, y: 0.5 } }, endBinding: { elementId: 'r1', focus: { x: 0, y: 0.5 } } }),
+], before);
+// What other replicas receive: the ops as they travel through the worker
+const overTheWire = (ops: Op[]): Op[] => JSON.parse(JSON.stringify(ops));
+
+describe('diffElements', () => {
+  it('removes added properties on every replica when undone', () => {
+    const inverse = diffElements(after, before);
+    const local = applyOpsToElements(inverse, after);
+    const remote = applyOpsToElements(overTheWire(inverse), after);
+    // Bindings come back as `null`, their "unbound" value; everything else is exactly as before
+    const expected = before.map(el => el.type === 'arrow' ? { ...el, startBinding: null, endBinding: null } : el);
+    expect(remote).toStrictEqual(expected);
+    expect(local).toStrictEqual(remote);
+  });
+
+  it('reproduces the target scene from serialized ops', () => {
+    expect(applyOpsToElements(overTheWire(diffElements(before, after)), before)).toStrictEqual(after);
+  });
+});
+
+describe('stampLocalOps', () => {
+  // What the editor shows while the gesture runs: unstamped ops re-route and detach arrows in the reducer
+  const withoutStamps = (elements: DrawingElement[]) => elements.map(({ stamps: _stamps, ...el }) => el);
+  it('sends the arrows an edit moves or detaches along with it', () => {
+    for (const ops of [[generateOp('update', 'r1', { x: 260, y: 80 })], [generateOp('delete', 'r0')]]) {
+      const stamped = stampLocalOps(ops, after);
+      expect(stamped.length).toBe(2);
+      expect(withoutStamps(applyOpsToElements(overTheWire(stamped), after))).toStrictEqual(applyOpsToElements(ops, after));
+    }
+  });
+});
@@ -1,6 +1,11 @@
-import type { Drawing, DrawingElement, Point, Op, AlignmentGuide, TextElement } from "@shared/types";
-import { produce } from 'immer';
+import type { DrawingElement, ElementUpdate, Point, Op, AlignmentGuide, TextElement, Arrowhead, LinearElement, ShapeElement, FillStyle, StrokeStyle, ArrowElement, BindableElement, PointBinding, Bounds, Viewport } from "@shared/types";
 import { v4 as uuidv4 } from 'uuid';
+import { generateKeyBetween, generateNKeysBetween } from '@shared/crdt';
+import { MAX_OP_BYTES } from '@shared/schema';
+import { getAbsolutePoints, getLinearGeometry, rotatePoint, isBindableElement, getCenter, getBoundArrowGeometry } from '@shared/geometry';
+export { getAbsolutePoints, getLinearGeometry, rotatePoint };
+import { applyOpsToElements } from '@shared/reducer';
+export { applyOpsToElements };
 // Basic path simplification using Ramer-Douglas-Peucker algorithm
 function perpendicularDistance(point: Point, lineStart: Point, lineEnd: Point): number {
   const { x: x1, y: y1 } = lineStart;
@@ -65,106 +70,125 @@ export function getPathData(points: Point[]): string {
   const [first, ...rest] = points;
   return `M ${first.x} ${first.y} ` + rest.map(p => `L ${p.x} ${p.y}`).join(' ');
 }
-// SVG Export helpers
-function elementToSvg(el: DrawingElement): string {
-  const common = `stroke="${el.strokeColor}" stroke-width="${el.strokeWidth}" opacity="${el.opacity}" transform="translate(${el.x} ${el.y}) rotate(${el.angle} ${el.width / 2} ${el.height / 2})"`;
-  switch (el.type) {
-    case 'stroke':
-      return `<path d="${getPathData(el.points)}" fill="none" ${common} />`;
-    case 'rectangle':
-      return `<rect width="${el.width}" height="${el.height}" fill="${el.fillColor}" ${common} />`;
-    case 'ellipse':
-      return `<ellipse cx="${el.width / 2}" cy="${el.height / 2}" rx="${el.width / 2}" ry="${el.height / 2}" fill="${el.fillColor}" ${common} />`;
-    case 'line':
-    case 'arrow': {
-      const pathData = `M ${el.points[0].x} ${el.points[0].y} L ${el.points[1].x} ${el.points[1].y}`;
-      return `<path d="${pathData}" fill="none" ${common} />`;
+// Closed shape (rectangle/ellipse) styling
+export function isShapeElement(el: DrawingElement): el is ShapeElement {
+  return el.type === 'rectangle' || el.type === 'ellipse';
+}
+// Shapes saved before fill styles existed are filled solid whenever they have a fill colour
+export function getFillStyle(el: ShapeElement): FillStyle {
+  if (el.fillStyle) return el.fillStyle;
+  return el.fillColor && el.fillColor !== 'transparent' ? 'solid' : 'none';
+}
+export function getStrokeDashArray(style: StrokeStyle, strokeWidth: number): string | undefined {
+  switch (style) {
+    case 'dashed':
+      return `8 ${8 + strokeWidth}`;
+    case 'dotted':
+      return `1.5 ${6 + strokeWidth}`;
+    default:
+      return undefined;
+  }
+}
+export function getRoundedRectPath(width: number, height: number, radius: number): string {
+  const r = Math.min(radius, width / 2, height / 2);
+  return `M ${r} 0 L ${width - r} 0 Q ${width} 0 ${width} ${r} L ${width} ${height - r} Q ${width} ${height} ${width - r} ${height} L ${r} ${height} Q 0 ${height} 0 ${height - r} L 0 ${r} Q 0 0 ${r} 0 Z`;
+}
+// Linear element (line/arrow) geometry
+const DEFAULT_ARROWHEADS: Record<LinearElement['type'], [Arrowhead, Arrowhead]> = {
+  line: ['none', 'none'],
+  arrow: ['none', 'triangle'],
+};
+export function getArrowheads(el: LinearElement): [Arrowhead, Arrowhead] {
+  const [start, end] = DEFAULT_ARROWHEADS[el.type];
+  return [el.startArrowhead ?? start, el.endArrowhead ?? end];
+}
+export interface ArrowheadShape {
+  d: string;
+  filled: boolean;
+}
+// Builds the head outline at `tip`, pointing away from `from`, sized relative to the stroke width
+export function getArrowheadShape(arrowhead: Arrowhead, tip: Point, from: Point, strokeWidth: number): ArrowheadShape | null {
+  const length = Math.hypot(tip.x - from.x, tip.y - from.y);
+  if (arrowhead === 'none' || length === 0) return null;
+  const ux = (tip.x - from.x) / length;
+  const uy = (tip.y - from.y) / length;
+  const nx = -uy;
+  const ny = ux;
+  const size = Math.max(10, strokeWidth * 3.5);
+  switch (arrowhead) {
+    case 'triangle': {
+      const bx = tip.x - ux * size;
+      const by = tip.y - uy * size;
+      return { d: `M ${tip.x} ${tip.y} L ${bx + nx * size / 2} ${by + ny * size / 2} L ${bx - nx * size / 2} ${by - ny * size / 2} Z`, filled: true };
+    }
+    case 'bar':
+      return { d: `M ${tip.x + nx * size / 2} ${tip.y + ny * size / 2} L ${tip.x - nx * size / 2} ${tip.y - ny * size / 2}`, filled: false };
+    case 'dot': {
+      const r = size / 3;
+      const cx = tip.x - ux * r;
+      const cy = tip.y - uy * r;
+      return { d: `M ${cx - r} ${cy} a ${r} ${r} 0 1 0 ${2 * r} 0 a ${r} ${r} 0 1 0 ${-2 * r} 0 Z`, filled: true };
     }
-    case 'text':
-      return `<text x="0" y="${el.fontSize}" font-family="${el.fontFamily}" font-size="${el.fontSize}" fill="${el.strokeColor}" ${common}>${el.text}</text>`;
     default:
-      return '';
+      return null;
   }
 }
-export function exportToSvg(drawing: Drawing, width: number, height: number, viewport: { x: number, y: number }): string {
-  const elementsSvg = drawing.elements.map(elementToSvg).join('\n  ');
-  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewport.x} ${viewport.y} ${width} ${height}">
-  <rect width="100%" height="100%" fill="white" />
-  ${elementsSvg}
-</svg>`;
-}
-export async function exportToPng(svgString: string, width: number, height: number): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
-    const url = URL.createObjectURL(svgBlob);
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return reject('Canvas context not available');
-      ctx.drawImage(img, 0, 0, width, height);
-      URL.revokeObjectURL(url);
-      resolve(canvas.toDataURL('image/png'));
-    };
-    img.onerror = (err) => {
-      URL.revokeObjectURL(url);
-      reject(err);
-    };
-    img.src = url;
-  });
+export function getLinearElementArrowheads(el: LinearElement): ArrowheadShape[] {
+  const { points } = el;
+  if (points.length < 2) return [];
+  const [start, end] = getArrowheads(el);
+  return [
+    getArrowheadShape(start, points[0], points[1], el.strokeWidth),
+    getArrowheadShape(end, points[points.length - 1], points[points.length - 2], el.strokeWidth),
+  ].filter((shape): shape is ArrowheadShape => shape !== null);
 }
-// --- Operation Log Utilities ---
-export function applyOpsToElements(ops: Op[], initialElements: DrawingElement[] = []): DrawingElement[] {
-  return produce(initialElements, draft => {
-    ops.forEach(op => {
-      try {
-        switch (op.type) {
-          case 'add':
-            if (op.data && !Array.isArray(op.data)) {
-              draft.push(op.data as DrawingElement);
-            }
-            break;
-          case 'update':
-            if (op.elementId && op.data && !Array.isArray(op.data)) {
-              const idx = draft.findIndex(e => e.id === op.elementId);
-              if (idx !== -1) {
-                const elementToUpdate = draft[idx];
-                const updates = op.data as Partial<DrawingElement>;
-                // Directly mutate draft properties instead of using Object.assign
-                for (const key in updates) {
-                  if (Object.prototype.hasOwnProperty.call(updates, key)) {
-                    (elementToUpdate as any)[key] = (updates as any)[key];
-                  }
-                }
-                // This fixes the Immer bug by ensuring `isEditing` is only on TextElements
-                if (elementToUpdate.type !== 'text' && 'isEditing' in elementToUpdate) {
-                  delete (elementToUpdate as any).isEditing;
-                }
-              }
-            }
-            break;
-          case 'delete':
-            if (op.elementId) {
-              const delIdx = draft.findIndex(e => e.id === op.elementId);
-              if (delIdx !== -1) {
-                draft.splice(delIdx, 1);
-              }
-            }
-            break;
-          case 'reorder':
-            if (op.data && Array.isArray(op.data)) {
-               return op.data as DrawingElement[];
-            }
-            break;
-        }
-      } catch (error) {
-        console.warn('Failed to apply op:', op, error);
-      }
-    });
-  });
+export function isLinearElement(el: DrawingElement): el is LinearElement {
+  return el.type === 'line' || el.type === 'arrow';
+}
+// Text is laid out as one row per line of `text`, each `fontSize * TEXT_LINE_HEIGHT` below the previous one
+export const TEXT_LINE_HEIGHT = 1.25;
+export function getTextLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+// --- Arrow Binding ---
+const BINDING_MARGIN = 8;
+// Topmost bindable element whose (rotated) box contains the point, with a small margin around it
+export function getBindableElementAt(elements: DrawingElement[], point: Point, excludeId?: string): BindableElement | null {
+  for (let i = elements.length - 1; i >= 0; i--) {
+    const el = elements[i];
+    if (el.id === excludeId || !isBindableElement(el)) continue;
+    const local = rotatePoint(point, getCenter(el), -el.angle);
+    if (local.x >= el.x - BINDING_MARGIN && local.x <= el.x + el.width + BINDING_MARGIN && local.y >= el.y - BINDING_MARGIN && local.y <= el.y + el.height + BINDING_MARGIN) {
+      return el;
+    }
+  }
+  return null;
+}
+export function createBinding(target: BindableElement, point: Point): PointBinding {
+  const local = rotatePoint(point, getCenter(target), -target.angle);
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  return {
+    elementId: target.id,
+    focus: {
+      x: target.width > 0 ? clamp((local.x - target.x) / target.width) : 0.5,
+      y: target.height > 0 ? clamp((local.y - target.y) / target.height) : 0.5,
+    },
+  };
+}
+// Binds the given endpoints of an arrow to whatever bindable element they land on (or unbinds them)
+export function getArrowBindingUpdate(arrow: ArrowElement, elements: DrawingElement[], ends: ('start' | 'end')[] = ['start', 'end']): Partial<ArrowElement> {
+  const points = getAbsolutePoints(arrow);
+  const bindingAt = (point: Point) => {
+    const target = getBindableElementAt(elements, point, arrow.id);
+    return target ? createBinding(target, point) : null;
+  };
+  const bindings: Partial<ArrowElement> = {};
+  if (ends.includes('start')) bindings.startBinding = bindingAt(points[0]);
+  if (ends.includes('end')) bindings.endBinding = bindingAt(points[points.length - 1]);
+  const geometry = getBoundArrowGeometry({ ...arrow, ...bindings }, elements);
+  return { ...bindings, ...geometry };
 }
+// --- Operation Log Utilities ---
 export function generateOp(type: Op['type'], elementId?: string, data?: Partial<DrawingElement> | DrawingElement | DrawingElement[]): Op {
   return {
     id: uuidv4(),
@@ -174,6 +198,315 @@ export function generateOp(type: Op['type'], elementId?: string, data?: Partial<
     ts: Date.now(),
   };
 }
+// Z-order keys for `count` new elements stacked above everything else
+export function getTopIndexes(elements: DrawingElement[], count: number): string[] {
+  return generateNKeysBetween(elements[elements.length - 1]?.index ?? null, null, count);
+}
+// Index updates that move one element to `position` in the stacking order. Unkeyed (older) scenes, or ties
+// left by concurrent inserts, get keys for every element; otherwise only the moved element changes.
+export function getMoveOps(elements: DrawingElement[], elementId: string, position: number): Op[] {
+  const moved = elements.find(el => el.id === elementId);
+  if (!moved) return [];
+  const rest = elements.filter(el => el.id !== elementId);
+  const below = rest[position - 1]?.index ?? null;
+  const above = rest[position]?.index ?? null;
+  const needsRekey = rest.some(el => !el.index) || (below !== null && above !== null && below >= above);
+  if (!needsRekey) return [generateOp('update', elementId, { index: generateKeyBetween(below, above) })];
+  const reordered = [...rest.slice(0, position), moved, ...rest.slice(position)];
+  const keys = generateNKeysBetween(null, null, reordered.length);
+  return reordered.map((el, i) => generateOp('update', el.id, { index: keys[i] }));
+}
+// This tab's Lamport clock. Ops are stamped when committed, so undo inverses and coalesced gesture ops carry a fresh stamp.
+const replicaId = uuidv4();
+let lamportClock = 0;
+export function observeOps(ops: Op[]): void {
+  ops.forEach(op => {
+    if (op.stamp) lamportClock = Math.max(lamportClock, op.stamp.clock);
+    if (op.ops) observeOps(op.ops);
+  });
+}
+export function stampOp(op: Op): Op {
+  lamportClock += 1;
+  const stamped: Op = { ...op, stamp: { clock: lamportClock, replicaId } };
+  if (op.ops) stamped.ops = op.ops.map(stampOp);
+  return stamped;
+}
+// Stamps own ops for the shared log. Merged stamped ops neither re-route nor detach arrows (see shared/reducer.ts),
+// so whatever the ops do to the arrows on `elements` goes along as one more op.
+export function stampLocalOps(ops: Op[], elements: DrawingElement[], stamp: (op: Op) => Op = stampOp): Op[] {
+  const stamped = ops.flatMap(splitOversizedOp).map(stamp);
+  const routed = applyOpsToElements(ops, elements);
+  const arrowIds = new Set(routed.filter(el => el.type === 'arrow').map(el => el.id));
+  const followUps = diffElements(applyOpsToElements(stamped, elements), routed).filter(op => op.type === 'update' && arrowIds.has(op.elementId!));
+  if (followUps.length === 0) return stamped;
+  return [...stamped, stamp(followUps.length === 1 ? followUps[0] : generateBatchOp(followUps))];
+}
+export function generateBatchOp(ops: Op[]): Op {
+  return { id: uuidv4(), type: 'batch', ops, ts: Date.now() };
+}
+export function getOpByteLength(op: Op): number {
+  return new TextEncoder().encode(JSON.stringify(op)).length;
+}
+// Leaves room for the stamps added after splitting
+const SPLIT_BATCH_BYTES = MAX_OP_BYTES * 0.75;
+// A batch too big for the worker (a large paste or import) becomes consecutive batches that fit.
+// An op that is too big on its own stays as it is and is refused by the worker.
+export function splitOversizedOp(op: Op): Op[] {
+  if (op.type !== 'batch' || !op.ops || getOpByteLength(op) <= SPLIT_BATCH_BYTES) return [op];
+  const parts: Op[][] = [[]];
+  let size = 0;
+  for (const inner of op.ops.flatMap(splitOversizedOp)) {
+    const innerSize = getOpByteLength(inner) + 1;
+    if (size + innerSize > SPLIT_BATCH_BYTES && parts[parts.length - 1].length > 0) {
+      parts.push([]);
+      size = 0;
+    }
+    parts[parts.length - 1].push(inner);
+    size += innerSize;
+  }
+  return parts.map(ops => ops.length === 1 ? ops[0] : generateBatchOp(ops));
+}
+// Folds successive updates of the same element into one, so a gesture's hundreds of pointer moves become a handful of ops
+export function coalesceOps(ops: Op[]): Op[] {
+  const result: Op[] = [];
+  const pendingUpdates = new Map<string, number>();
+  ops.forEach(op => {
+    const index = op.type === 'update' && op.elementId ? pendingUpdates.get(op.elementId) : undefined;
+    if (index !== undefined) {
+      const merged = result[index];
+      result[index] = { ...merged, data: { ...(merged.data as ElementUpdate), ...(op.data as ElementUpdate) } as ElementUpdate, ts: op.ts };
+      return;
+    }
+    if (op.type === 'update' && op.elementId) {
+      pendingUpdates.set(op.elementId, result.length);
+    } else if (op.elementId) {
+      pendingUpdates.delete(op.elementId);
+    } else {
+      // Reorders and nested batches can touch anything, so nothing merges across them
+      pendingUpdates.clear();
+    }
+    result.push(op);
+  });
+  return result;
+}
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  return typeof a === 'object' && typeof b === 'object' && a !== null && b !== null && JSON.stringify(a) === JSON.stringify(b);
+}
+// Ops that turn `from` into `to`. Undo appends diff(after, before) as new ops instead of rewinding the shared log,
+// so the prior values travel with the op and every client converges on the same state.
+export function diffElements(from: DrawingElement[], to: DrawingElement[]): Op[] {
+  const ops: Op[] = [];
+  const fromById = new Map(from.map(el => [el.id, el]));
+  const toIds = new Set(to.map(el => el.id));
+  from.forEach(el => { if (!toIds.has(el.id)) ops.push(generateOp('delete', el.id)); });
+  to.forEach(el => {
+    const prev = fromById.get(el.id);
+    if (!prev) {
+      ops.push(generateOp('add', undefined, el));
+      return;
+    }
+    if (prev === el) return;
+    const changes: Record<string, unknown> = {};
+    new Set([...Object.keys(prev), ...Object.keys(el)]).forEach(key => {
+      // Merge bookkeeping is never sent as an update
+      if (key === 'stamps') return;
+      const before = (prev as unknown as Record<string, unknown>)[key];
+      const after = (el as unknown as Record<string, unknown>)[key];
+      // A property the target doesn't have is sent as a `null` tombstone; `undefined` would vanish in JSON
+      if (!isEqualValue(before, after)) changes[key] = after === undefined ? null : after;
+    });
+    if (Object.keys(changes).length > 0) ops.push(generateOp('update', el.id, changes as Partial<DrawingElement>));
+  });
+  return ops;
+}
+// --- Viewport Utilities ---
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 10;
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+// Changes the zoom while keeping the scene point under `anchor` (in screen coordinates) fixed
+export function zoomAtPoint(viewport: Viewport, nextZoom: number, anchor: Point): Viewport {
+  const zoom = clampZoom(nextZoom);
+  const sceneX = (anchor.x - viewport.x) / viewport.zoom;
+  const sceneY = (anchor.y - viewport.y) / viewport.zoom;
+  return { ...viewport, zoom, x: anchor.x - sceneX * zoom, y: anchor.y - sceneY * zoom };
+}
+export function getVisibleSceneBounds(viewport: Viewport): Bounds {
+  return {
+    x: -viewport.x / viewport.zoom,
+    y: -viewport.y / viewport.zoom,
+    width: viewport.width / viewport.zoom,
+    height: viewport.height / viewport.zoom,
+  };
+}
+// Axis-aligned box around the element, accounting for its rotation
+export function getElementBounds(el: DrawingElement): Bounds {
+  const center = { x: el.x + el.width / 2, y: el.y + el.height / 2 };
+  const corners = [
+    { x: el.x, y: el.y },
+    { x: el.x + el.width, y: el.y },
+    { x: el.x, y: el.y + el.height },
+    { x: el.x + el.width, y: el.y + el.height },
+  ].map(p => rotatePoint(p, center, el.angle));
+  const xs = corners.map(p => p.x);
+  const ys = corners.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+}
+export function getCommonBounds(elements: DrawingElement[]): Bounds | null {
+  if (elements.length === 0) return null;
+  const bounds = elements.map(getElementBounds);
+  const minX = Math.min(...bounds.map(b => b.x));
+  const minY = Math.min(...bounds.map(b => b.y));
+  const maxX = Math.max(...bounds.map(b => b.x + b.width));
+  const maxY = Math.max(...bounds.map(b => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+// Centres `bounds` in the viewport at the largest zoom (up to `maxZoom`) that fits it with padding
+export function fitBoundsToViewport(bounds: Bounds, viewport: Viewport, padding = 40, maxZoom = 1): Viewport {
+  const availableWidth = Math.max(1, viewport.width - padding * 2);
+  const availableHeight = Math.max(1, viewport.height - padding * 2);
+  const zoom = clampZoom(Math.min(maxZoom, availableWidth / Math.max(bounds.width, 1), availableHeight / Math.max(bounds.height, 1)));
+  return {
+    ...viewport,
+    zoom,
+    x: viewport.width / 2 - (bounds.x + bounds.width / 2) * zoom,
+    y: viewport.height / 2 - (bounds.y + bounds.height / 2) * zoom,
+  };
+}
+// --- Hit Testing ---
+// Extra slack (in scene px) around strokes and outlines so thin lines stay easy to pick
+export const HIT_TOLERANCE = 6;
+const ELLIPSE_SEGMENTS = 32;
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+function distanceToPolyline(p: Point, points: Point[]): number {
+  if (points.length === 1) return Math.hypot(p.x - points[0].x, p.y - points[0].y);
+  let min = Infinity;
+  for (let i = 0; i < points.length - 1; i++) min = Math.min(min, distanceToSegment(p, points[i], points[i + 1]));
+  return min;
+}
+// Signed distance from a point (relative to the element's top-left) to the shape outline: negative inside, positive outside
+function getShapeSignedDistance(el: ShapeElement | TextElement, p: Point): number {
+  const hw = el.width / 2;
+  const hh = el.height / 2;
+  const x = p.x - hw;
+  const y = p.y - hh;
+  if (el.type === 'ellipse') {
+    if (hw === 0 || hh === 0) return Math.max(Math.abs(x) - hw, Math.abs(y) - hh);
+    const k = Math.hypot(x / hw, y / hh);
+    // Radial approximation: exact on the axes and close enough elsewhere for picking
+    return k === 0 ? -Math.min(hw, hh) : Math.hypot(x, y) * (1 - 1 / k);
+  }
+  const r = el.type === 'rectangle' ? Math.min(el.roundness ?? 0, hw, hh) : 0;
+  const qx = Math.abs(x) - (hw - r);
+  const qy = Math.abs(y) - (hh - r);
+  return Math.hypot(Math.max(qx, 0), Math.max(qy, 0)) + Math.min(Math.max(qx, qy), 0) - r;
+}
+// Whether the point touches the element's visible geometry. Unfilled shapes only count their outline.
+export function hitTestElement(point: Point, el: DrawingElement, tolerance = HIT_TOLERANCE): boolean {
+  const local = rotatePoint(point, getCenter(el), -el.angle);
+  const p = { x: local.x - el.x, y: local.y - el.y };
+  const threshold = tolerance + el.strokeWidth / 2;
+  switch (el.type) {
+    case 'stroke':
+    case 'line':
+    case 'arrow':
+      return el.points.length > 0 && distanceToPolyline(p, el.points) <= threshold;
+    case 'rectangle':
+    case 'ellipse': {
+      const distance = getShapeSignedDistance(el, p);
+      return getFillStyle(el) === 'none' ? Math.abs(distance) <= threshold : distance <= threshold;
+    }
+    case 'text':
+      return getShapeSignedDistance(el, p) <= tolerance;
+    default:
+      return false;
+  }
+}
+// Topmost visible element under the point
+export function getElementAtPoint(elements: DrawingElement[], point: Point, tolerance = HIT_TOLERANCE): DrawingElement | null {
+  for (let i = elements.length - 1; i >= 0; i--) {
+    const el = elements[i];
+    if (el.opacity !== 0 && hitTestElement(point, el, tolerance)) return el;
+  }
+  return null;
+}
+// Whether the point lies inside the element's rotated box, filled or not (used to drag an already selected shape)
+export function pointInElementBox(point: Point, el: DrawingElement): boolean {
+  const local = rotatePoint(point, getCenter(el), -el.angle);
+  return local.x >= el.x && local.x <= el.x + el.width && local.y >= el.y && local.y <= el.y + el.height;
+}
+// The element's drawn geometry as scene-space polylines; closed shapes repeat their first point
+function getElementOutline(el: DrawingElement): Point[] {
+  const center = getCenter(el);
+  let points: Point[];
+  switch (el.type) {
+    case 'stroke':
+    case 'line':
+    case 'arrow':
+      points = el.points.map(p => ({ x: el.x + p.x, y: el.y + p.y }));
+      break;
+    case 'ellipse':
+      points = Array.from({ length: ELLIPSE_SEGMENTS + 1 }, (_, i) => {
+        const t = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+        return { x: center.x + Math.cos(t) * el.width / 2, y: center.y + Math.sin(t) * el.height / 2 };
+      });
+      break;
+    default:
+      points = [{ x: el.x, y: el.y }, { x: el.x + el.width, y: el.y }, { x: el.x + el.width, y: el.y + el.height }, { x: el.x, y: el.y + el.height }, { x: el.x, y: el.y }];
+  }
+  return points.map(p => rotatePoint(p, center, el.angle));
+}
+function pointInBounds(p: Point, b: Bounds): boolean {
+  return p.x >= b.x && p.x <= b.x + b.width && p.y >= b.y && p.y <= b.y + b.height;
+}
+function segmentIntersectsBounds(a: Point, b: Point, box: Bounds): boolean {
+  if (pointInBounds(a, box) || pointInBounds(b, box)) return true;
+  const corners = [{ x: box.x, y: box.y }, { x: box.x + box.width, y: box.y }, { x: box.x + box.width, y: box.y + box.height }, { x: box.x, y: box.y + box.height }];
+  const cross = (o: Point, p: Point, q: Point) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+  return corners.some((c, i) => {
+    const d = corners[(i + 1) % 4];
+    return cross(a, b, c) * cross(a, b, d) <= 0 && cross(c, d, a) * cross(c, d, b) <= 0;
+  });
+}
+// Whether the marquee box touches the element's actual geometry rather than just its bounding box
+export function elementIntersectsBounds(el: DrawingElement, box: Bounds): boolean {
+  if (!boundsIntersect(box, getElementBounds(el))) return false;
+  const outline = getElementOutline(el);
+  if (outline.length === 1) return pointInBounds(outline[0], box);
+  for (let i = 0; i < outline.length - 1; i++) {
+    if (segmentIntersectsBounds(outline[i], outline[i + 1], box)) return true;
+  }
+  // A box lying wholly inside a filled shape touches it without crossing the outline
+  const solidInterior = el.type === 'text' || (isShapeElement(el) && getFillStyle(el) !== 'none');
+  return solidInterior && hitTestElement({ x: box.x, y: box.y }, el, 0);
+}
+// --- Selection Utilities ---
+export function getBoundsFromPoints(a: Point, b: Point): Bounds {
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(a.x - b.x), height: Math.abs(a.y - b.y) };
+}
+export function boundsIntersect(a: Bounds, b: Bounds): boolean {
+  return !(b.x > a.x + a.width || b.x + b.width < a.x || b.y > a.y + a.height || b.y + b.height < a.y);
+}
+export function boundsContain(outer: Bounds, inner: Bounds): boolean {
+  return inner.x >= outer.x && inner.y >= outer.y && inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+}
+// Elements picked by a marquee: fully enclosed ones by default, any touched ones in 'intersect' mode. Hidden layers are skipped.
+export function getElementsInSelectionBox(elements: DrawingElement[], box: Bounds, mode: 'contain' | 'intersect'): DrawingElement[] {
+  return elements.filter(el => {
+    if (el.opacity === 0) return false;
+    return mode === 'contain' ? boundsContain(box, getElementBounds(el)) : elementIntersectsBounds(el, box);
+  });
+}
 // --- Advanced Tools Utilities ---
 export function snapToGrid(p: Point, gridSize: number): Point {
   return {
@@ -213,17 +546,6 @@ export function getAlignmentGuides(elements: DrawingElement[], preview: DrawingE
   }
   return guides;
 }
-export function pointInElement(point: Point, el: DrawingElement): boolean {
-  // Guard against undefined/null inputs (e.g., during eraser throttling)
-  if (!point || !el) return false;
-  // A simple bounding box check for now
-  return (
-    point.x >= el.x &&
-    point.x <= el.x + el.width &&
-    point.y >= el.y &&
-    point.y <= el.y + el.height
-  );
-}
 export function computeRotationDelta(center: Point, start: Point, current: Point): number {
   const startAngle = Math.atan2(start.y - center.y, start.x - center.x);
   const currentAngle = Math.atan2(current.y - center.y, current.x - center.x);
@@ -0,0 +1,208 @@
+import { z } from 'zod';
+import type { Arrowhead, ArrowElement, DrawingElement, FillStyle, Point, PointBinding } from '@shared/types';
+import { generateNKeysBetween } from '@shared/crdt';
+import { getCenter, getLinearGeometry, isBindableElement, rotatePoint } from '@shared/geometry';
+import type { SceneAppState } from '@/lib/scene';
+// Importer for Excalidraw files (`.excalidraw`) and the JSON Excalidraw puts on the clipboard.
+// Elements are mapped onto the closest DrawingElement; whatever can't be carried over is counted in `warnings`.
+const ExcalidrawBindingSchema = z.object({ elementId: z.string() }).nullable().optional();
+const ExcalidrawElementSchema = z.object({
+  id: z.string().min(1),
+  type: z.string(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  angle: z.number().default(0),
+  strokeColor: z.string().default('#1e1e1e'),
+  backgroundColor: z.string().default('transparent'),
+  fillStyle: z.string().default('solid'),
+  strokeWidth: z.number().default(2),
+  strokeStyle: z.enum(['solid', 'dashed', 'dotted']).catch('solid'),
+  roughness: z.number().default(1),
+  opacity: z.number().default(100),
+  seed: z.number().optional(),
+  groupIds: z.array(z.string()).default([]),
+  roundness: z.object({ type: z.number(), value: z.number().optional() }).nullable().optional(),
+  isDeleted: z.boolean().default(false),
+  link: z.string().nullable().optional(),
+  locked: z.boolean().optional(),
+  points: z.array(z.tuple([z.number(), z.number()])).optional(),
+  startBinding: ExcalidrawBindingSchema,
+  endBinding: ExcalidrawBindingSchema,
+  startArrowhead: z.string().nullable().optional(),
+  endArrowhead: z.string().nullable().optional(),
+  text: z.string().optional(),
+  fontSize: z.number().optional(),
+  fontFamily: z.number().optional(),
+  textAlign: z.string().optional(),
+  containerId: z.string().nullable().optional(),
+});
+type ExcalidrawElement = z.infer<typeof ExcalidrawElementSchema>;
+const ExcalidrawDataSchema = z.object({
+  type: z.enum(['excalidraw', 'excalidraw/clipboard']),
+  elements: z.array(z.unknown()),
+  appState: z.object({
+    name: z.string(),
+    scrollX: z.number(),
+    scrollY: z.number(),
+    zoom: z.object({ value: z.number().positive() }),
+    gridSize: z.number().nullable(),
+    gridModeEnabled: z.boolean(),
+  }).partial().optional(),
+});
+export interface ExcalidrawImport {
+  // Set when the data came with an app state (files do, clipboard payloads don't)
+  title?: string;
+  appState?: Omit<SceneAppState, 'enableSnapping'>;
+  elements: DrawingElement[];
+  warnings: string[];
+}
+// Excalidraw's font ids: 1 Virgil, 2 Helvetica, 3 Cascadia, 5 Excalifont, 6 Nunito, 7 Lilita One, 8 Comic Shanns, 9 Liberation Sans
+const FONT_MAP: Record<number, string> = { 2: 'Inter', 3: 'Courier New', 6: 'Inter', 7: 'Cal Sans', 8: 'Courier New', 9: 'Inter' };
+const FILL_STYLES: Record<string, FillStyle> = { 'solid': 'solid', 'hachure': 'hachure', 'cross-hatch': 'cross-hatch', 'zigzag': 'zigzag', 'zigzag-line': 'zigzag' };
+const ARROWHEADS: Record<string, Arrowhead> = { 'arrow': 'triangle', 'triangle': 'triangle', 'triangle_outline': 'triangle', 'bar': 'bar', 'dot': 'dot', 'circle': 'dot', 'circle_outline': 'dot' };
+const SKIPPED_TYPES: Record<string, string> = {
+  image: 'Images aren\'t supported and were skipped',
+  frame: 'Frames were removed; their contents were kept',
+  magicframe: 'Frames were removed; their contents were kept',
+  embeddable: 'Embeds aren\'t supported and were skipped',
+  iframe: 'Embeds aren\'t supported and were skipped',
+};
+class ImportNotes {
+  private counts = new Map<string, number>();
+  add(message: string) {
+    this.counts.set(message, (this.counts.get(message) ?? 0) + 1);
+  }
+  list(): string[] {
+    return [...this.counts].map(([message, count]) => `${message} (${count})`);
+  }
+}
+function toArrowhead(arrowhead: string | null | undefined, notes: ImportNotes): Arrowhead {
+  if (!arrowhead) return 'none';
+  if (!ARROWHEADS[arrowhead]) notes.add('Unsupported arrowheads were replaced with triangles');
+  return ARROWHEADS[arrowhead] ?? 'triangle';
+}
+// Excalidraw's adaptive corners are a fixed 32px (or a quarter of short sides); legacy ones are always a quarter
+function toRoundness(el: ExcalidrawElement): number {
+  if (!el.roundness) return 0;
+  const quarter = Math.min(Math.abs(el.width), Math.abs(el.height)) / 4;
+  return el.roundness.type === 3 ? Math.min(el.roundness.value ?? 32, quarter) : quarter;
+}
+function convertElement(el: ExcalidrawElement, notes: ImportNotes): DrawingElement | null {
+  const base = {
+    id: el.id,
+    x: el.x,
+    y: el.y,
+    width: el.width,
+    height: el.height,
+    angle: el.angle * (180 / Math.PI),
+    strokeColor: el.strokeColor,
+    strokeWidth: el.strokeWidth,
+    opacity: Math.min(1, Math.max(0, el.opacity / 100)),
+    roughness: el.roughness,
+    seed: el.seed,
+  };
+  const fill = { fillColor: el.backgroundColor, fillStyle: el.backgroundColor === 'transparent' ? 'none' as const : FILL_STYLES[el.fillStyle] ?? 'solid', strokeStyle: el.strokeStyle };
+  // Linear points are relative to (x, y) and may be negative; ours are relative to the points' own bounding box
+  const absolutePoints = (el.points ?? []).map(([px, py]) => ({ x: el.x + px, y: el.y + py }));
+  switch (el.type) {
+    case 'rectangle':
+      return { ...base, ...fill, type: 'rectangle', roundness: toRoundness(el) };
+    case 'ellipse':
+      return { ...base, ...fill, type: 'ellipse' };
+    case 'diamond': {
+      notes.add('Diamonds were converted to closed lines without fill');
+      const { x, y, width: w, height: h } = el;
+      const outline = [{ x: x + w / 2, y }, { x: x + w, y: y + h / 2 }, { x: x + w / 2, y: y + h }, { x, y: y + h / 2 }, { x: x + w / 2, y }];
+      return { ...base, ...getLinearGeometry(outline), type: 'line', startArrowhead: 'none', endArrowhead: 'none' };
+    }
+    case 'line':
+    case 'arrow': {
+      if (absolutePoints.length < 2) return null;
+      if (el.roundness) notes.add('Curved lines and arrows were imported as straight segments');
+      const linear = { ...base, ...getLinearGeometry(absolutePoints), startArrowhead: toArrowhead(el.startArrowhead, notes), endArrowhead: toArrowhead(el.endArrowhead, notes) };
+      return el.type === 'arrow' ? { ...linear, type: 'arrow' } : { ...linear, type: 'line' };
+    }
+    case 'freedraw':
+      if (absolutePoints.length < 2) return null;
+      return { ...base, ...getLinearGeometry(absolutePoints), type: 'stroke' };
+    case 'text': {
+      const fontFamily = FONT_MAP[el.fontFamily ?? 1];
+      if (!fontFamily) notes.add('Hand-drawn fonts were replaced with Inter');
+      if (el.containerId) notes.add('Text inside shapes was imported as free text');
+      if (el.textAlign && el.textAlign !== 'left') notes.add('Centered and right-aligned text was left-aligned');
+      return { ...base, type: 'text', text: el.text ?? '', fontSize: el.fontSize ?? 20, fontFamily: fontFamily ?? 'Inter', isEditing: false };
+    }
+    default:
+      notes.add(SKIPPED_TYPES[el.type] ?? `Unknown "${el.type}" elements were skipped`);
+      return null;
+  }
+}
+// Excalidraw only records which element an endpoint is bound to; ours also needs where on the target it aims,
+// which is taken from where the endpoint sits now
+function toPointBinding(arrow: ArrowElement, end: 'start' | 'end', targetId: string | undefined, byId: Map<string, DrawingElement>, notes: ImportNotes): PointBinding | null {
+  if (!targetId) return null;
+  const target = byId.get(targetId);
+  if (!target || !isBindableElement(target)) {
+    notes.add('Arrow bindings to unsupported shapes were removed');
+    return null;
+  }
+  const point = arrow.points[end === 'start' ? 0 : arrow.points.length - 1];
+  const endpoint = rotatePoint({ x: arrow.x + point.x, y: arrow.y + point.y }, getCenter(arrow), arrow.angle);
+  const local = rotatePoint(endpoint, getCenter(target), -target.angle);
+  const clamp = (value: number) => Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0.5;
+  const focus: Point = { x: clamp((local.x - target.x) / target.width), y: clamp((local.y - target.y) / target.height) };
+  return { elementId: target.id, focus };
+}
+export function importExcalidraw(data: unknown): ExcalidrawImport {
+  const result = ExcalidrawDataSchema.safeParse(data);
+  if (!result.success) throw new Error(`The Excalidraw data is invalid: ${result.error.issues[0]?.message ?? 'unknown error'}`);
+  const parsed = result.data;
+  const notes = new ImportNotes();
+  const sources: ExcalidrawElement[] = [];
+  for (const raw of parsed.elements) {
+    const el = ExcalidrawElementSchema.safeParse(raw);
+    if (!el.success) notes.add('Unreadable elements were skipped');
+    else if (!el.data.isDeleted) sources.push(el.data);
+  }
+  const converted = sources.map(el => {
+    const result = convertElement(el, notes);
+    if (result && el.groupIds.length > 0) notes.add('Groups were ungrouped');
+    if (result && el.link) notes.add('Links were removed');
+    if (result && el.locked) notes.add('Locked elements were unlocked');
+    return result;
+  });
+  const kept = converted.filter(el => el !== null);
+  const byId = new Map(kept.map(el => [el.id, el]));
+  const sourceById = new Map(sources.map(el => [el.id, el]));
+  const keys = generateNKeysBetween(null, null, kept.length);
+  const elements = kept.map((el, i): DrawingElement => {
+    const source = sourceById.get(el.id);
+    if (el.type !== 'arrow' || !source) return { ...el, index: keys[i] };
+    const startBinding = toPointBinding(el, 'start', source.startBinding?.elementId, byId, notes);
+    const endBinding = toPointBinding(el, 'end', source.endBinding?.elementId, byId, notes);
+    return { ...el, index: keys[i], startBinding, endBinding };
+  });
+  const { appState } = parsed;
+  if (!appState) return { elements, warnings: notes.list() };
+  // Excalidraw scrolls in scene units before zooming; our viewport offset is in screen pixels
+  const zoom = appState.zoom?.value ?? 1;
+  return {
+    title: appState.name,
+    appState: { viewport: { x: (appState.scrollX ?? 0) * zoom, y: (appState.scrollY ?? 0) * zoom, zoom }, showGrid: appState.gridModeEnabled ?? appState.gridSize != null },
+    elements,
+    warnings: notes.list(),
+  };
+}
+// The import for text that holds Excalidraw JSON, or null when it is anything else; throws if the JSON is malformed Excalidraw data
+export function readExcalidrawJson(text: string): ExcalidrawImport | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const type = typeof data === 'object' && data !== null ? (data as { type?: unknown }).type : undefined;
+  return type === 'excalidraw' || type === 'excalidraw/clipboard' ? importExcalidraw(data) : null;
+}
@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { File as NodeFile } from 'node:buffer';
+import type { DrawingElement } from '@shared/types';
+import { exportToSvg, type ExportBackground } from '@/lib/export';
+import { readSceneFromFile } from '@/lib/scene';
+
+// jsdom parses XML strictly and answers malformed markup with a <parsererror> document, as browsers do
+function parseSvg(svg: string): Document {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) throw new Error(`Exported SVG is not well-formed: ${error.textContent}`);
+  return doc;
+}
+
+// --- Corpus ---
+const base = { x: 10, y: 20, width: 120, height: 80, angle: 0, strokeColor: '#1e1e1e', strokeWidth: 2, opacity: 1 };
+const text = (id: string, value: string, fontFamily = 'Inter'): DrawingElement => ({ ...base, id, type: 'text', text: value, fontSize: 20, fontFamily });
+const HOSTILE = [
+  '<script>alert(1)</script>',
+  'Tom & Jerry\'s "quotes"',
+  'ends a section ]]> early',
+  '</metadata></svg><svg onload="x">',
+  '<![CDATA[ nested ]]>',
+  'first line\n\nthird line\r\nfourth',
+  'emoji 🎨 and accents éàü, RTL שלום',
+  '&amp; &lt; &#x26; &unknown;',
+];
+const CORPUS: Record<string, DrawingElement[]> = {
+  'plain shapes': [
+    { ...base, id: 'rect', type: 'rectangle', fillColor: '#ffc9c9', strokeStyle: 'dashed', roundness: 8 },
+    { ...base, id: 'ellipse', type: 'ellipse', x: 200, fillColor: 'transparent', strokeStyle: 'dotted' },
+    { ...base, id: 'stroke', type: 'stroke', y: 200, points: [{ x: 0, y: 0 }, { x: 30, y: 50 }, { x: 120, y: 80 }] },
+    { ...base, id: 'line', type: 'line', x: 200, y: 200, points: [{ x: 0, y: 0 }, { x: 120, y: 80 }], startArrowhead: 'bar', endArrowhead: 'dot' },
+    { ...base, id: 'arrow', type: 'arrow', x: 400, angle: 30, points: [{ x: 0, y: 80 }, { x: 60, y: 0 }, { x: 120, y: 80 }], startArrowhead: 'none', endArrowhead: 'triangle' },
+  ],
+  'hand-drawn shapes': [
+    { ...base, id: 'rough-rect', type: 'rectangle', roughness: 2, seed: 7, fillColor: '#a5d8ff', fillStyle: 'hachure', strokeStyle: 'solid' },
+    { ...base, id: 'rough-ellipse', type: 'ellipse', x: 200, roughness: 1, seed: 3, fillColor: '#b2f2bb', fillStyle: 'cross-hatch', strokeStyle: 'dashed' },
+    { ...base, id: 'rough-zigzag', type: 'rectangle', y: 200, roughness: 1, seed: 11, fillColor: '#ffec99', fillStyle: 'zigzag', strokeStyle: 'dotted' },
+    { ...base, id: 'rough-arrow', type: 'arrow', x: 200, y: 200, roughness: 2, seed: 5, points: [{ x: 0, y: 0 }, { x: 120, y: 80 }], startArrowhead: 'triangle', endArrowhead: 'triangle' },
+  ],
+  'hostile text': HOSTILE.map((value, i) => text(`text-${i}`, value)),
+  'hostile attributes': [
+    { ...base, id: 'quote"id', type: 'rectangle', strokeColor: '"/><script>x</script>', fillColor: 'red" onload="x', strokeStyle: 'solid' },
+    text('font', 'font names', 'Evil\' font"</style>'),
+  ],
+  'empty and tiny': [
+    text('empty', ''),
+    { ...base, id: 'zero', type: 'rectangle', width: 0, height: 0, fillColor: 'transparent', strokeStyle: 'solid' },
+  ],
+};
+const BACKGROUNDS: ExportBackground[] = ['transparent', 'white', 'theme'];
+
+describe('exportToSvg', () => {
+  for (const [name, elements] of Object.entries(CORPUS)) {
+    for (const background of BACKGROUNDS) {
+      for (const embedScene of [true, false]) {
+        it(`writes well-formed SVG for ${name} (${background}${embedScene ? ', editable' : ''})`, () => {
+          const result = exportToSvg(elements, { background, embedScene, title: 'Title with ]]> & </metadata>', fontCss: '@font-face { font-family: "X"; } /* ]]> */' });
+          expect(result).not.toBeNull();
+          const doc = parseSvg(result!.svg);
+          expect(doc.documentElement.nodeName).toBe('svg');
+          expect(doc.getElementsByTagName('script')).toHaveLength(0);
+        });
+      }
+    }
+  }
+
+  it('keeps hostile text as text', () => {
+    const doc = parseSvg(exportToSvg(CORPUS['hostile text'], { embedScene: false })!.svg);
+    const rendered = Array.from(doc.getElementsByTagName('text'), node => Array.from(node.getElementsByTagName('tspan'), row => row.textContent).join('\n'));
+    expect(rendered).toEqual(HOSTILE.map(value => value.replace(/\r\n/g, '\n')));
+  });
+
+  it('round-trips the embedded scene', async () => {
+    for (const elements of Object.values(CORPUS)) {
+      const { svg } = exportToSvg(elements, { title: 'A ]]> title' })!;
+      // jsdom's File can't be read as bytes; Node's can
+      const scene = await readSceneFromFile(new NodeFile([svg], 'export.svg', { type: 'image/svg+xml' }) as unknown as File);
+      expect(scene.title).toBe('A ]]> title');
+      expect(scene.elements).toEqual(elements.map(el => el.type === 'text' ? { ...el, isEditing: false } : el));
+    }
+  });
+
+  it('writes well-formed SVG for any text and keeps it intact in the embedded scene', async () => {
+    await fc.assert(fc.asyncProperty(fc.string({ unit: 'binary' }), fc.string({ unit: 'binary', minLength: 1 }), async (value, title) => {
+      const { svg } = exportToSvg([text('t', value)], { title })!;
+      parseSvg(svg);
+      const scene = await readSceneFromFile(new NodeFile([svg], 'export.svg') as unknown as File);
+      expect(scene.title).toBe(title);
+      expect(scene.elements[0]).toMatchObject({ text: value });
+    }), { numRuns: 300 });
+  });
+});
@@ -0,0 +1,139 @@
+import type { Bounds, DrawingElement } from "@shared/types";
+import { getPathData, getLinearElementArrowheads, getFillStyle, getStrokeDashArray, isShapeElement, isLinearElement, getElementBounds, getTextLines, TEXT_LINE_HEIGHT } from '@/lib/drawing';
+import { getFontStack } from '@/lib/fonts';
+import { getSceneMetadataSvg } from '@/lib/scene';
+import { getRoughPaths, getPatternFillPaths, isSketchy, type RoughPath } from '@/lib/rough';
+// SVG Export helpers
+// Everything that comes from element data goes through this before it lands in markup, text content and attributes alike.
+// Characters XML can't carry at all (control characters, lone surrogates) are dropped rather than escaped.
+// eslint-disable-next-line no-control-regex -- Matching the control characters XML forbids is the point
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]|[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/g;
+export function escapeXml(value: string | number): string {
+  return String(value).replace(INVALID_XML_CHARS, '').replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[ch]!);
+}
+function elementToSvg(el: DrawingElement): string {
+  const placement = `opacity="${escapeXml(el.opacity)}" transform="translate(${escapeXml(el.x)} ${escapeXml(el.y)}) rotate(${escapeXml(el.angle)} ${escapeXml(el.width / 2)} ${escapeXml(el.height / 2)})"`;
+  const dashArray = isShapeElement(el) ? getStrokeDashArray(el.strokeStyle, el.strokeWidth) : undefined;
+  const dash = dashArray ? ` stroke-dasharray="${escapeXml(dashArray)}"` : '';
+  const roughPathToSvg = (p: RoughPath) => `<path d="${escapeXml(p.d)}" stroke="${escapeXml(p.stroke)}" stroke-width="${escapeXml(p.strokeWidth)}" fill="${escapeXml(p.fill)}"${p.kind === 'stroke' ? dash : ''} />`;
+  if (isSketchy(el)) {
+    return `<g stroke-linecap="round" stroke-linejoin="round" ${placement}>${getRoughPaths(el).map(roughPathToSvg).join('')}</g>`;
+  }
+  const common = `stroke="${escapeXml(el.strokeColor)}" stroke-width="${escapeXml(el.strokeWidth)}" ${placement}`;
+  switch (el.type) {
+    case 'stroke':
+      return `<path d="${escapeXml(getPathData(el.points))}" fill="none" ${common} />`;
+    case 'rectangle':
+    case 'ellipse': {
+      const fill = escapeXml(getFillStyle(el) === 'solid' ? el.fillColor : 'none');
+      const pattern = getPatternFillPaths(el).map(roughPathToSvg).join('');
+      const outline = el.type === 'rectangle'
+        ? `<rect width="${escapeXml(el.width)}" height="${escapeXml(el.height)}" rx="${escapeXml(el.roundness ?? 0)}" fill="${fill}"${dash} />`
+        : `<ellipse cx="${escapeXml(el.width / 2)}" cy="${escapeXml(el.height / 2)}" rx="${escapeXml(el.width / 2)}" ry="${escapeXml(el.height / 2)}" fill="${fill}"${dash} />`;
+      return `<g stroke-linecap="round" ${common}>${pattern}${outline}</g>`;
+    }
+    case 'line':
+    case 'arrow': {
+      const heads = getLinearElementArrowheads(el).map(head => `<path d="${escapeXml(head.d)}" fill="${escapeXml(head.filled ? el.strokeColor : 'none')}" stroke-linejoin="round" />`).join('');
+      return `<g fill="none" ${common}><path d="${escapeXml(getPathData(el.points))}" stroke-linecap="round" stroke-linejoin="round" />${heads}</g>`;
+    }
+    case 'text': {
+      // One <tspan> per line; empty lines still take up a row
+      const rows = getTextLines(el.text).map((line, i) => `<tspan x="0" y="${escapeXml(el.fontSize + i * el.fontSize * TEXT_LINE_HEIGHT)}">${escapeXml(line)}</tspan>`).join('');
+      return `<text font-family="${escapeXml(getFontStack(el.fontFamily))}" font-size="${escapeXml(el.fontSize)}" fill="${escapeXml(el.strokeColor)}" xml:space="preserve" ${placement}>${rows}</text>`;
+    }
+    default:
+      return '';
+  }
+}
+// --- Export Options ---
+// A named-frame scope is not offered: the editor has no frame elements to name (imported Excalidraw frames are dropped)
+export type ExportScope = 'all' | 'selection';
+// `theme` paints the canvas colour of the current light or dark theme
+export type ExportBackground = 'transparent' | 'white' | 'theme';
+export interface ExportSettings {
+  scope: ExportScope;
+  // Scene units of empty margin around the exported elements
+  padding: number;
+  background: ExportBackground;
+  scale: number;
+  // Carry the editable elements inside the file so it can be opened again
+  embedScene: boolean;
+}
+export const EXPORT_SCALES = [1, 2, 3, 4];
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = { scope: 'all', padding: 16, background: 'white', scale: 1, embedScene: true };
+export function getExportElements(elements: DrawingElement[], scope: ExportScope, selectedIds: string[]): DrawingElement[] {
+  return scope === 'selection' ? elements.filter(el => selectedIds.includes(el.id)) : elements;
+}
+// The element's rotated box grown by how far its ink can reach past it:
+// half the stroke, arrowheads beyond the end points, the wobble of hand-drawn outlines and text rows below the box
+function getInkBounds(el: DrawingElement): Bounds {
+  const box = getElementBounds(el);
+  let margin = el.strokeWidth / 2;
+  if (el.type === 'text') margin += Math.max(0, getTextLines(el.text).length * el.fontSize * TEXT_LINE_HEIGHT - el.height);
+  if (isLinearElement(el) && getLinearElementArrowheads(el).length > 0) margin += Math.max(10, el.strokeWidth * 3.5);
+  if (isSketchy(el)) margin += (el.roughness ?? 0) * el.strokeWidth;
+  return { x: box.x - margin, y: box.y - margin, width: box.width + margin * 2, height: box.height + margin * 2 };
+}
+export function getExportBounds(elements: DrawingElement[]): Bounds | null {
+  if (elements.length === 0) return null;
+  const bounds = elements.map(getInkBounds);
+  const minX = Math.min(...bounds.map(b => b.x));
+  const minY = Math.min(...bounds.map(b => b.y));
+  return { x: minX, y: minY, width: Math.max(...bounds.map(b => b.x + b.width)) - minX, height: Math.max(...bounds.map(b => b.y + b.height)) - minY };
+}
+function resolveBackground(background: ExportBackground): string | null {
+  if (background === 'transparent') return null;
+  if (background === 'white') return '#ffffff';
+  // The canvas is painted with the theme's `--card` colour
+  const card = getComputedStyle(document.documentElement).getPropertyValue('--card').trim();
+  return card ? `hsl(${card})` : '#ffffff';
+}
+export interface SvgExport {
+  svg: string;
+  // Output size in pixels: the padded bounds times the scale
+  width: number;
+  height: number;
+}
+// Renders the elements cropped to their own bounds, or null if there is nothing to draw.
+// `fontCss` is the `@font-face` rules from `getEmbeddedFontCss`, fetched ahead since this has to stay synchronous;
+// `title` names the drawing in the embedded scene.
+export function exportToSvg(elements: DrawingElement[], options: Partial<Omit<ExportSettings, 'scope'>> & { fontCss?: string; title?: string } = {}): SvgExport | null {
+  const { padding, background, scale, embedScene, fontCss, title = '' } = { ...DEFAULT_EXPORT_SETTINGS, ...options };
+  const bounds = getExportBounds(elements);
+  if (!bounds) return null;
+  const viewBox = { x: bounds.x - padding, y: bounds.y - padding, width: bounds.width + padding * 2, height: bounds.height + padding * 2 };
+  const width = Math.ceil(viewBox.width * scale);
+  const height = Math.ceil(viewBox.height * scale);
+  const fill = resolveBackground(background);
+  const backgroundSvg = fill ? `<rect x="${viewBox.x}" y="${viewBox.y}" width="${viewBox.width}" height="${viewBox.height}" fill="${escapeXml(fill)}" />\n  ` : '';
+  // CDATA keeps the CSS verbatim; a `]]>` inside it would end the section early, so that sequence is split
+  const defsSvg = fontCss ? `<defs><style type="text/css"><![CDATA[\n${fontCss.split(']]>').join(']]]]><![CDATA[>')}\n]]></style></defs>\n  ` : '';
+  const metadataSvg = embedScene ? `${getSceneMetadataSvg(elements, title)}\n  ` : '';
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}">
+  ${metadataSvg}${defsSvg}${backgroundSvg}${elements.map(elementToSvg).join('\n  ')}
+</svg>`;
+  return { svg, width, height };
+}
+export async function exportToPng(svgString: string, width: number, height: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
+    const url = URL.createObjectURL(svgBlob);
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject('Canvas context not available');
+      ctx.drawImage(img, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject('PNG encoding failed'), 'image/png');
+    };
+    img.onerror = (err) => {
+      URL.revokeObjectURL(url);
+      reject(err);
+    };
+    img.src = url;
+  });
+}
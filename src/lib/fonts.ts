@@ -0,0 +1,52 @@
+import type { DrawingElement } from '@shared/types';
+// Fonts offered for text elements. Web fonts can be embedded in exports; system fonts can't be redistributed,
+// so exports name them with a generic fallback instead.
+export const FONT_FAMILIES = ['Inter', 'Cal Sans', 'Georgia', 'Courier New'];
+const GENERIC_FAMILIES: Record<string, string> = { 'Inter': 'sans-serif', 'Cal Sans': 'sans-serif', 'Georgia': 'serif', 'Courier New': 'monospace' };
+const WEB_FONTS: Record<string, string> = { 'Inter': 'Inter', 'Cal Sans': 'Cal Sans' };
+const WEB_FONT_CSS_URL = 'https://fonts.googleapis.com/css2';
+// CSS font-family value for a text element: the chosen font, then a generic family viewers are sure to have
+export function getFontStack(family: string): string {
+  return `'${family.replace(/['\\]/g, '')}', ${GENERIC_FAMILIES[family] ?? 'sans-serif'}`;
+}
+// An error page would otherwise be embedded as if it were the font
+async function fetchOk(url: string): Promise<Response> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url} answered ${res.status}`);
+  return res;
+}
+async function toDataUrl(url: string): Promise<string> {
+  const blob = await (await fetchOk(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+// `@font-face` rules for the web fonts the text elements use, each subset to just the characters they contain and
+// inlined as data URLs so the file renders the same anywhere. Fonts that can't be fetched (offline, or an error
+// from the font service) are left out. Subsetting sends those characters to Google Fonts, which the export panel mentions.
+export async function getEmbeddedFontCss(elements: DrawingElement[]): Promise<string> {
+  const charsByFamily = new Map<string, Set<string>>();
+  for (const el of elements) {
+    if (el.type !== 'text' || !WEB_FONTS[el.fontFamily]) continue;
+    const chars = charsByFamily.get(el.fontFamily) ?? new Set<string>();
+    for (const ch of el.text) if (ch.trim()) chars.add(ch);
+    charsByFamily.set(el.fontFamily, chars);
+  }
+  const rules = await Promise.all([...charsByFamily].map(async ([family, chars]) => {
+    if (chars.size === 0) return '';
+    try {
+      const params = new URLSearchParams({ family: WEB_FONTS[family], text: [...chars].join('') });
+      const css = await (await fetchOk(`${WEB_FONT_CSS_URL}?${params}`)).text();
+      const urls = [...new Set(css.match(/https:\/\/[^)'"\s]+/g) ?? [])];
+      const dataUrls = await Promise.all(urls.map(toDataUrl));
+      return urls.reduce((result, url, i) => result.split(url).join(dataUrls[i]), css);
+    } catch (error) {
+      console.warn(`Could not embed font "${family}":`, error);
+      return '';
+    }
+  }));
+  return rules.filter(Boolean).join('\n');
+}
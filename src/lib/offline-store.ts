@@ -0,0 +1,108 @@
+import type { ApiErrorCode, AppendOpsResult, Drawing, Op } from '@shared/types';
+import { MAX_BODY_BYTES, MAX_OPS_PER_REQUEST } from '@shared/schema';
+import { api, ApiError } from '@/lib/api-client';
+import { getOpByteLength } from '@/lib/drawing';
+// Local copies of drawings and of the ops the worker hasn't confirmed yet, so edits survive reloads and work offline.
+// `drawings` holds the last confirmed scene of each opened drawing; `queues` holds one op queue per drawing.
+const DB_NAME = 'leveragecanvas';
+const DB_VERSION = 1;
+const DRAWINGS_STORE = 'drawings';
+const QUEUES_STORE = 'queues';
+// Only losing access or the drawing makes a queue undeliverable; anything else keeps it for another try
+const UNDELIVERABLE: ApiErrorCode[] = ['forbidden', 'not_found'];
+interface OpQueue {
+  drawingId: string;
+  ops: Op[];
+}
+let dbPromise: Promise<IDBDatabase> | null = null;
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(DRAWINGS_STORE, { keyPath: 'id' });
+      request.result.createObjectStore(QUEUES_STORE, { keyPath: 'drawingId' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+async function run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+// --- Drawings ---
+// Stored as a snapshot: the confirmed elements up to `opVersion`, with no op log
+export async function cacheDrawing(drawing: Drawing): Promise<void> {
+  await run(DRAWINGS_STORE, 'readwrite', store => store.put({ ...drawing, ops: [], presences: [] }));
+}
+export async function getCachedDrawing(id: string): Promise<Drawing | null> {
+  return (await run<Drawing | undefined>(DRAWINGS_STORE, 'readonly', store => store.get(id))) ?? null;
+}
+export async function listCachedDrawings(): Promise<Drawing[]> {
+  const drawings = await run<Drawing[]>(DRAWINGS_STORE, 'readonly', store => store.getAll());
+  return drawings.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+export async function removeCachedDrawing(id: string): Promise<void> {
+  await run(DRAWINGS_STORE, 'readwrite', store => store.delete(id));
+  await run(QUEUES_STORE, 'readwrite', store => store.delete(id));
+}
+// --- Sending ---
+// Posts ops in as many requests as the worker's limits need (see shared/schema.ts) and merges the answers.
+// A failure part way through throws; the worker dedupes by op id, so sending everything again is safe.
+export async function sendOps(drawingId: string, ops: Op[]): Promise<AppendOpsResult> {
+  const requests: Op[][] = [[]];
+  let size = 2;
+  for (const op of ops) {
+    const opSize = getOpByteLength(op) + 1;
+    const current = requests[requests.length - 1];
+    if (current.length > 0 && (current.length === MAX_OPS_PER_REQUEST || size + opSize > MAX_BODY_BYTES)) {
+      requests.push([]);
+      size = 2;
+    }
+    requests[requests.length - 1].push(op);
+    size += opSize;
+  }
+  const result: AppendOpsResult = { fromSeq: Infinity, toSeq: 0, seqs: {}, rejected: [] };
+  for (const request of requests) {
+    const part = await api<AppendOpsResult>(`/api/drawings/${drawingId}/ops`, { method: 'POST', body: JSON.stringify(request) });
+    result.fromSeq = Math.min(result.fromSeq, part.fromSeq);
+    result.toSeq = Math.max(result.toSeq, part.toSeq);
+    Object.assign(result.seqs, part.seqs);
+    result.rejected.push(...part.rejected);
+  }
+  return result;
+}
+// --- Op Queues ---
+export async function saveQueuedOps(drawingId: string, ops: Op[]): Promise<void> {
+  await run(QUEUES_STORE, 'readwrite', store => ops.length > 0 ? store.put({ drawingId, ops } satisfies OpQueue) : store.delete(drawingId));
+}
+export async function getQueuedOps(drawingId: string): Promise<Op[]> {
+  return (await run<OpQueue | undefined>(QUEUES_STORE, 'readonly', store => store.get(drawingId)))?.ops ?? [];
+}
+// Sends the queues of drawings that aren't open, left behind by switching drawings or closing the tab while offline.
+// The worker dedupes by op id, so replaying ops it already stored is harmless.
+export async function flushQueuedOps(exceptDrawingId: string | null): Promise<void> {
+  const queues = await run<OpQueue[]>(QUEUES_STORE, 'readonly', store => store.getAll());
+  for (const { drawingId, ops } of queues) {
+    if (drawingId === exceptDrawingId) continue;
+    try {
+      const { seqs, rejected } = await sendOps(drawingId, ops);
+      const dropped = new Set(rejected.filter(r => r.dropped).map(r => r.opId));
+      // Re-read in case the drawing was opened and edited while this was in flight
+      await saveQueuedOps(drawingId, (await getQueuedOps(drawingId)).filter(op => seqs[op.id] === undefined && !dropped.has(op.id)));
+    } catch (error) {
+      // The drawing is gone or no longer editable, so the queue can never be delivered; anything else is retried later.
+      // A single op over the limits or malformed is dropped by the worker on its own, so a 400 or 413 is never a reason to discard.
+      if (error instanceof ApiError && UNDELIVERABLE.includes(error.code)) await saveQueuedOps(drawingId, []);
+      else throw error;
+    }
+  }
+}
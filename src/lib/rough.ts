@@ -0,0 +1,98 @@
+import rough from 'roughjs';
+import type { Drawable, Options } from 'roughjs/bin/core';
+import type { DrawingElement } from '@shared/types';
+import { getLinearElementArrowheads, getFillStyle, getRoundedRectPath, isShapeElement } from '@/lib/drawing';
+// Hand-drawn rendering: roughjs turns each element into plain SVG path data, seeded per element
+// so every collaborator (and the SVG export) draws exactly the same wobble.
+const generator = rough.generator();
+export interface RoughPath {
+  // Outline strokes get the element's dash pattern; fill paths never do
+  kind: 'stroke' | 'fill';
+  d: string;
+  stroke: string;
+  strokeWidth: number;
+  fill: string;
+}
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31) + 1;
+}
+// Elements created before seeds existed derive a stable one from their id
+function getSeed(el: DrawingElement): number {
+  if (el.seed) return el.seed;
+  let hash = 0;
+  for (let i = 0; i < el.id.length; i++) {
+    hash = (hash * 31 + el.id.charCodeAt(i)) | 0;
+  }
+  return (Math.abs(hash) % 2 ** 31) + 1;
+}
+export function isSketchy(el: DrawingElement): boolean {
+  return (el.roughness ?? 0) > 0 && el.type !== 'text';
+}
+function toPaths(drawable: Drawable): RoughPath[] {
+  const o = drawable.options;
+  return drawable.sets.map(set => {
+    const d = generator.opsToPath(set, 2);
+    switch (set.type) {
+      case 'fillPath':
+        return { kind: 'fill', d, stroke: 'none', strokeWidth: 0, fill: o.fill || 'none' };
+      case 'fillSketch':
+        return { kind: 'fill', d, stroke: o.fill || 'none', strokeWidth: o.fillWeight < 0 ? o.strokeWidth / 2 : o.fillWeight, fill: 'none' };
+      default:
+        return { kind: 'stroke', d, stroke: o.stroke, strokeWidth: o.strokeWidth, fill: 'none' };
+    }
+  });
+}
+function buildDrawables(el: DrawingElement): Drawable[] {
+  const options: Options = {
+    seed: getSeed(el),
+    roughness: el.roughness,
+    stroke: el.strokeColor,
+    strokeWidth: el.strokeWidth,
+  };
+  switch (el.type) {
+    case 'rectangle':
+    case 'ellipse': {
+      const fillStyle = getFillStyle(el);
+      const shapeOptions: Options = {
+        ...options,
+        ...(fillStyle !== 'none' ? { fill: el.fillColor, fillStyle } : {}),
+        // Overlapping double strokes smear the gaps of dashed and dotted outlines
+        disableMultiStroke: el.strokeStyle !== 'solid',
+      };
+      if (el.type === 'ellipse') {
+        return [generator.ellipse(el.width / 2, el.height / 2, el.width, el.height, shapeOptions)];
+      }
+      return el.roundness
+        ? [generator.path(getRoundedRectPath(el.width, el.height, el.roundness), shapeOptions)]
+        : [generator.rectangle(0, 0, el.width, el.height, shapeOptions)];
+    }
+    case 'stroke':
+      return el.points.length > 1 ? [generator.curve(el.points.map(p => [p.x, p.y]), options)] : [];
+    case 'line':
+    case 'arrow': {
+      // Keep the exact vertices so arrowheads and bindings line up with the sketched path
+      const line = generator.linearPath(el.points.map(p => [p.x, p.y]), { ...options, preserveVertices: true });
+      const heads = getLinearElementArrowheads(el).map(head => generator.path(head.d, head.filled ? { ...options, fill: el.strokeColor, fillStyle: 'solid' } : options));
+      return [line, ...heads];
+    }
+    default:
+      return [];
+  }
+}
+// The reducer hands out a new object whenever an element changes, so caching per object is safe
+const cache = new WeakMap<DrawingElement, RoughPath[]>();
+export function getRoughPaths(el: DrawingElement): RoughPath[] {
+  let paths = cache.get(el);
+  if (!paths) {
+    paths = buildDrawables(el).flatMap(toPaths);
+    cache.set(el, paths);
+  }
+  return paths;
+}
+// Hachure, cross-hatch and zigzag fills only exist as generated strokes, so crisp shapes borrow them from roughjs
+export function getPatternFillPaths(el: DrawingElement): RoughPath[] {
+  if (!isShapeElement(el)) return [];
+  const fillStyle = getFillStyle(el);
+  if (fillStyle === 'none' || fillStyle === 'solid') return [];
+  return getRoughPaths(el).filter(p => p.kind === 'fill');
+}
@@ -0,0 +1,246 @@
+import { z } from 'zod';
+import type { DrawingElement } from '@shared/types';
+import { DrawingElementSchema } from '@shared/schema';
+import { generateNKeysBetween } from '@shared/crdt';
+import { readExcalidrawJson } from '@/lib/excalidraw';
+// The `.leveragecanvas` file format. The same JSON is what exported SVG and PNG files carry, so any of them opens as a drawing.
+//
+//   {
+//     "type": "leveragecanvas",
+//     "version": 2,                  // SCENE_VERSION; older files are migrated on load, newer ones are refused
+//     "title": "Roadmap",
+//     "elements": [ ... ],           // DrawingElement[] in stored order, without CRDT stamps
+//     "appState": { "viewport": { "x": 0, "y": 0, "zoom": 1 }, "showGrid": false, "enableSnapping": true },
+//     "files": { "<fileId>": { "mimeType": "image/png", "dataURL": "data:image/png;base64,..." } }
+//   }
+//
+// `files` holds binary assets inlined as data URLs, keyed by the id elements reference them with.
+// Version 1 (exports made before the file format existed) had only `type`, `version` and `elements`.
+export const SCENE_VERSION = 2;
+export const SCENE_EXTENSION = '.leveragecanvas';
+export const SCENE_MIME_TYPE = 'application/vnd.leveragecanvas+json';
+const SCENE_KEYWORD = 'leveragecanvas';
+const SCENE_METADATA_ID = 'leveragecanvas-scene';
+export interface SceneAppState {
+  viewport: { x: number; y: number; zoom: number };
+  showGrid: boolean;
+  enableSnapping: boolean;
+}
+export interface SceneFileData {
+  mimeType: string;
+  dataURL: string;
+}
+export interface Scene {
+  title: string;
+  elements: DrawingElement[];
+  appState: SceneAppState;
+  files: Record<string, SceneFileData>;
+}
+// A scene read from another app's file, with what couldn't be carried over
+export interface ImportedScene extends Scene {
+  warnings: string[];
+}
+export const DEFAULT_APP_STATE: SceneAppState = { viewport: { x: 0, y: 0, zoom: 1 }, showGrid: false, enableSnapping: true };
+// Element contents are checked one by one afterwards so an error can name the element
+const SceneEnvelopeSchema = z.object({
+  type: z.literal(SCENE_KEYWORD),
+  version: z.literal(SCENE_VERSION),
+  title: z.string(),
+  elements: z.array(z.unknown()),
+  appState: z.object({
+    viewport: z.object({ x: z.number(), y: z.number(), zoom: z.number().positive() }),
+    showGrid: z.boolean(),
+    enableSnapping: z.boolean(),
+  }),
+  files: z.record(z.string(), z.object({ mimeType: z.string(), dataURL: z.string().startsWith('data:') })),
+});
+export interface SceneIssue {
+  // Position in `elements`, when the problem is inside an element
+  elementIndex?: number;
+  elementId?: string;
+  path: string;
+  message: string;
+}
+export class SceneFileError extends Error {
+  constructor(message: string, public issues: SceneIssue[] = []) {
+    super(message);
+    this.name = 'SceneFileError';
+  }
+}
+// --- Migrations ---
+type RawScene = Record<string, unknown> & { version: number };
+type RawElement = Record<string, unknown>;
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+// Elements from before fractional indexing were ordered by a numeric `zIndex`; they get keys in that order instead
+function migrateZIndexToKeys(elements: RawElement[]): RawElement[] {
+  if (elements.some(el => typeof el.index === 'string')) return elements.map(({ zIndex: _zIndex, ...el }) => el);
+  const ordered = elements.map((el, i) => ({ el, i })).sort((a, b) => (Number(a.el.zIndex) || 0) - (Number(b.el.zIndex) || 0) || a.i - b.i);
+  const keys = generateNKeysBetween(null, null, ordered.length);
+  return ordered.map(({ el: { zIndex: _zIndex, ...el } }, i) => ({ ...el, index: keys[i] }));
+}
+// `isEditing` was once written on every element type, and text is never mid-edit in a file
+function migrateEditingFlag(el: RawElement): RawElement {
+  const { isEditing: _isEditing, ...rest } = el;
+  return el.type === 'text' ? { ...rest, isEditing: false } : rest;
+}
+// Each step takes a file of the version it is keyed by to the next version
+const MIGRATIONS: Record<number, (scene: RawScene) => RawScene> = {
+  1: scene => {
+    const elements = Array.isArray(scene.elements) ? scene.elements.filter(isRecord) : [];
+    return { ...scene, version: 2, title: '', appState: DEFAULT_APP_STATE, files: {}, elements: migrateZIndexToKeys(elements).map(migrateEditingFlag) };
+  },
+};
+function migrateScene(scene: RawScene): RawScene {
+  let current = scene;
+  while (current.version < SCENE_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) throw new SceneFileError(`Files of version ${current.version} can't be opened.`);
+    current = migrate(current);
+  }
+  return current;
+}
+// --- Serialization ---
+export function serializeScene(scene: Pick<Scene, 'title' | 'elements'> & Partial<Scene>): string {
+  // Stamps belong to the drawing the elements came from and mean nothing in a new one
+  const elements = scene.elements.map(({ stamps: _stamps, ...el }) => el.type === 'text' ? { ...el, isEditing: false } : el);
+  return JSON.stringify({ type: SCENE_KEYWORD, version: SCENE_VERSION, title: scene.title, elements, appState: scene.appState ?? DEFAULT_APP_STATE, files: scene.files ?? {} });
+}
+function formatPath(path: PropertyKey[]): string {
+  return path.map(String).join('.') || '(root)';
+}
+// Upgrades and validates a serialized scene. Every element that doesn't parse is reported with its position and id.
+export function parseScene(json: string): Scene {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new SceneFileError('The file is not valid JSON.');
+  }
+  if (!isRecord(data) || data.type !== SCENE_KEYWORD || typeof data.version !== 'number') throw new SceneFileError('This is not a LeverageCanvas file.');
+  if (data.version > SCENE_VERSION) throw new SceneFileError('This file was saved by a newer version of LeverageCanvas.');
+  const envelope = SceneEnvelopeSchema.safeParse(migrateScene(data as RawScene));
+  if (!envelope.success) {
+    const issues = envelope.error.issues.map(issue => ({ path: formatPath(issue.path), message: issue.message }));
+    throw new SceneFileError(`The file is invalid: ${issues[0].path}: ${issues[0].message}`, issues);
+  }
+  const elements: DrawingElement[] = [];
+  const issues: SceneIssue[] = [];
+  envelope.data.elements.forEach((raw, elementIndex) => {
+    const parsed = DrawingElementSchema.safeParse(raw);
+    if (parsed.success) elements.push(parsed.data);
+    else {
+      const elementId = isRecord(raw) && typeof raw.id === 'string' ? raw.id : undefined;
+      issues.push(...parsed.error.issues.map(issue => ({ elementIndex, elementId, path: formatPath(issue.path), message: issue.message })));
+    }
+  });
+  if (issues.length > 0) {
+    const [first] = issues;
+    const failed = new Set(issues.map(issue => issue.elementIndex)).size;
+    throw new SceneFileError(`Element ${first.elementIndex}${first.elementId ? ` ("${first.elementId}")` : ''} is invalid at ${first.path}: ${first.message}${failed > 1 ? ` (and ${failed - 1} more invalid element${failed > 2 ? 's' : ''})` : ''}`, issues);
+  }
+  const { title, appState, files } = envelope.data;
+  return { title, elements, appState, files };
+}
+// --- SVG ---
+// Wrapped in CDATA so the JSON stays readable; a `]]>` inside it is split across two sections.
+// JSON.stringify already escapes control characters and lone surrogates; U+FFFE and U+FFFF, which XML also forbids, are escaped here.
+export function getSceneMetadataSvg(elements: DrawingElement[], title: string): string {
+  const json = serializeScene({ title, elements }).replace(/[\uFFFE\uFFFF]/g, ch => `\\u${ch.charCodeAt(0).toString(16)}`);
+  return `<metadata id="${SCENE_METADATA_ID}"><![CDATA[${json.split(']]>').join(']]]]><![CDATA[>')}]]></metadata>`;
+}
+function readSceneFromSvg(svg: string): Scene | null {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const metadata = doc.getElementById(SCENE_METADATA_ID);
+  return metadata?.textContent ? parseScene(metadata.textContent) : null;
+}
+// --- PNG ---
+// The scene goes in an iTXt chunk (UTF-8 text, keyword `leveragecanvas`) just before IEND; tEXt chunks are read too
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+  // Offset of the chunk's length field
+  offset: number;
+}
+function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length), offset });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+function createPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+export async function embedSceneInPng(png: Blob, elements: DrawingElement[], title: string): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const iend = readPngChunks(bytes).find(chunk => chunk.type === 'IEND');
+  if (!isPng(bytes) || !iend) throw new Error('Not a PNG image');
+  const encoder = new TextEncoder();
+  // keyword, NUL, compression flag and method (none), empty language tag and translated keyword, then the text
+  const header = encoder.encode(`${SCENE_KEYWORD}\0\0\0\0\0`);
+  const text = encoder.encode(serializeScene({ title, elements }));
+  const data = new Uint8Array(header.length + text.length);
+  data.set(header);
+  data.set(text, header.length);
+  return new Blob([bytes.subarray(0, iend.offset), createPngChunk('iTXt', data), bytes.subarray(iend.offset)], { type: 'image/png' });
+}
+function readSceneFromPng(bytes: Uint8Array): Scene | null {
+  const decoder = new TextDecoder();
+  for (const { type, data } of readPngChunks(bytes)) {
+    if (type !== 'iTXt' && type !== 'tEXt') continue;
+    const keywordEnd = data.indexOf(0);
+    if (decoder.decode(data.subarray(0, keywordEnd)) !== SCENE_KEYWORD) continue;
+    if (type === 'tEXt') return parseScene(decoder.decode(data.subarray(keywordEnd + 1)));
+    // Skip the compression flag and method, then the NUL-terminated language tag and translated keyword
+    if (data[keywordEnd + 1] !== 0) throw new SceneFileError('Compressed scenes are not supported.');
+    const languageEnd = data.indexOf(0, keywordEnd + 3);
+    const translatedEnd = data.indexOf(0, languageEnd + 1);
+    return parseScene(decoder.decode(data.subarray(translatedEnd + 1)));
+  }
+  return null;
+}
+// --- Files ---
+export function createSceneFile(scene: Scene): Blob {
+  return new Blob([serializeScene(scene)], { type: SCENE_MIME_TYPE });
+}
+function readSceneFromJson(text: string): ImportedScene {
+  const excalidraw = readExcalidrawJson(text);
+  if (!excalidraw) return { ...parseScene(text), warnings: [] };
+  const { title = '', appState, elements, warnings } = excalidraw;
+  return { title, elements, appState: { ...DEFAULT_APP_STATE, ...appState }, files: {}, warnings };
+}
+// Opens a `.leveragecanvas` or `.excalidraw` file, or an exported SVG or PNG that carries its scene, whatever the file is named
+export async function readSceneFromFile(file: File): Promise<ImportedScene> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const text = isPng(bytes) ? null : new TextDecoder().decode(bytes);
+  const scene = text === null ? readSceneFromPng(bytes) : text.trimStart().startsWith('{') ? readSceneFromJson(text) : readSceneFromSvg(text);
+  if (!scene) throw new SceneFileError(`"${file.name}" has no LeverageCanvas scene in it. Only files exported with the scene embedded can be opened.`);
+  // Version 1 scenes and Excalidraw files may have no title
+  return { warnings: [], ...scene, title: scene.title || file.name.replace(/\.[^.]+$/, '') || 'Imported drawing' };
+}
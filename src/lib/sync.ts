@@ -0,0 +1,64 @@
+import type { AppendOpsResult, DrawingElement, Op } from '@shared/types';
+import { applyOpsToElements } from '@shared/reducer';
+// The client's side of the op log, kept free of React so it can be driven against the worker in tests.
+// `confirmed` is the scene as of seq `lastSeq`; `local` holds own ops not yet seen in the log, and `committed` is them
+// applied on top of it. `sent` are the local ops the worker has stored that are still waiting for their seq.
+export interface SyncState {
+  lastSeq: number;
+  confirmed: DrawingElement[];
+  local: Op[];
+  committed: DrawingElement[];
+  sent: Set<string>;
+}
+export interface MergeResult {
+  state: SyncState;
+  // The ops appended to the confirmed log, in seq order
+  accepted: Op[];
+  // How many of them came from others
+  foreignCount: number;
+}
+export function createSyncState(lastSeq: number, confirmed: DrawingElement[]): SyncState {
+  return { lastSeq, confirmed, local: [], committed: confirmed, sent: new Set() };
+}
+// Queues own ops on top of the committed scene; ops already queued (restored twice, say) are skipped
+export function queueLocalOps(state: SyncState, ops: Op[]): SyncState {
+  const known = new Set(state.local.map(op => op.id));
+  const queued = ops.filter(op => !known.has(op.id));
+  if (queued.length === 0) return state;
+  return { ...state, local: [...state.local, ...queued], committed: applyOpsToElements(queued, state.committed) };
+}
+// Appends sequenced ops to the confirmed log and rebases unconfirmed local ops on top
+export function mergeSequencedOps(state: SyncState, ops: Op[]): MergeResult {
+  const accepted: Op[] = [];
+  let lastSeq = state.lastSeq;
+  for (const op of [...ops].sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0))) {
+    if (op.seq === undefined || op.seq <= lastSeq) continue;
+    // A gap means something in between is missing; stop and catch up from lastSeq on the next fetch
+    if (op.seq !== lastSeq + 1) break;
+    lastSeq = op.seq;
+    accepted.push(op);
+  }
+  if (accepted.length === 0) return { state, accepted, foreignCount: 0 };
+  const acceptedIds = new Set(accepted.map(op => op.id));
+  const foreignCount = accepted.filter(op => !state.local.some(local => local.id === op.id)).length;
+  const local = state.local.filter(op => !acceptedIds.has(op.id));
+  const confirmed = applyOpsToElements(accepted, state.confirmed);
+  return { state: { ...state, lastSeq, confirmed, local, committed: applyOpsToElements(local, confirmed) }, accepted, foreignCount };
+}
+// Records the worker's answer to a save; ops numbered right after our last seq are confirmed without waiting for a poll
+export function acknowledgeAppend(state: SyncState, result: AppendOpsResult): MergeResult {
+  const sent = new Set([...state.sent, ...Object.keys(result.seqs)]);
+  const droppedIds = new Set(result.rejected.filter(r => r.dropped).map(r => r.opId));
+  // Replayed ops the worker already had at or before our last seq are part of the confirmed scene already,
+  // and dropped ops never will be
+  const settled = state.local.filter(op => droppedIds.has(op.id) || (result.seqs[op.id] !== undefined && result.seqs[op.id] <= state.lastSeq));
+  const local = settled.length > 0 ? state.local.filter(op => !settled.includes(op)) : state.local;
+  const next = { ...state, sent, local, committed: settled.length > 0 ? applyOpsToElements(local, state.confirmed) : state.committed };
+  return mergeSequencedOps(next, local.filter(op => result.seqs[op.id] !== undefined).map(op => ({ ...op, seq: result.seqs[op.id] })));
+}
+// Restarts the confirmed log from a fresh snapshot once the ops since our last seq have been compacted away.
+// Stored own ops are either in the snapshot or come back with the next fetch, so only unsent ones stay local.
+export function loadSnapshotState(state: SyncState, snapshot: { elements: DrawingElement[]; opVersion: number }): SyncState {
+  const local = state.local.filter(op => !state.sent.has(op.id));
+  return { lastSeq: snapshot.opVersion, confirmed: snapshot.elements, local, committed: applyOpsToElements(local, snapshot.elements), sent: new Set() };
+}
@@ -16,7 +16,6 @@ export function DemoPage() {
   const [messages, updateMessages] = useState<ChatMessage[]>([])
   const [selectedUserId, chooseUserId] = useState<string>('')
   const [selectedChatId, chooseChatId] = useState<string>('')
-  const [name, updateName] = useState('')
   const [title, updateTitle] = useState('')
   const [text, updateText] = useState('')
 
@@ -53,15 +52,6 @@ export function DemoPage() {
     if (selectedChatId) loadMessages(selectedChatId).catch(err => toast.error(err.message))
   }, [selectedChatId, loadMessages])
 
-  const createUser = useCallback(async () => {
-    if (!name.trim()) return
-    const u = await api<User>('/api/users', { method: 'POST', body: JSON.stringify({ name: name.trim() }) })
-    updateUsers(prev => [...prev, u])
-    updateName('')
-    toast.success('User created')
-    if (!selectedUserId) chooseUserId(u.id)
-  }, [name, selectedUserId])
-
   const createChat = useCallback(async () => {
     if (!title.trim()) return
     const c = await api<Chat>('/api/chats', { method: 'POST', body: JSON.stringify({ title: title.trim() }) })
@@ -97,11 +87,7 @@ export function DemoPage() {
         </h1>
 
         {/* Quick create controls */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-          <div className="flex gap-2">
-            <Input placeholder="New user name" value={name} onChange={(e) => updateName(e.target.value)} />
-            <Button onClick={createUser}>Add User</Button>
-          </div>
+        <div className="grid grid-cols-1 gap-3">
           <div className="flex gap-2">
             <Input placeholder="New chat title" value={title} onChange={(e) => updateTitle(e.target.value)} />
             <Button onClick={createChat}>Add Chat</Button>
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { useDebounce, useInterval, useWindowSize } from 'react-use';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useDebounce, useInterval, useWindowSize, useMeasure, useNetworkState } from 'react-use';
 import { useHotkeys } from 'react-hotkeys-hook';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AppLayout } from '@/components/layout/AppLayout';
@@ -7,27 +7,54 @@ import { ThemeToggle } from '@/components/ThemeToggle';
 import { Toaster, toast } from '@/components/ui/sonner';
 import { EditorToolbar } from '@/components/toolbar/EditorToolbar';
 import { ExcalidrawCanvas } from '@/components/canvas/ExcalidrawCanvas';
+import { ZoomControls } from '@/components/toolbar/ZoomControls';
 import { LayersPanel } from '@/components/inspector/LayersPanel';
+import { PropertiesPanel } from '@/components/inspector/PropertiesPanel';
+import { HistoryPanel } from '@/components/history/HistoryPanel';
+import { ShareDialog } from '@/components/sharing/ShareDialog';
+import { SyncIndicator } from '@/components/sync/SyncIndicator';
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
 import { useDraw } from '@/hooks/use-draw';
-import { api } from '@/lib/api-client';
-import type { Drawing, Tool, Presence, Op, Template, Viewport, Point, DrawingElement } from '@shared/types';
-import { exportToSvg, exportToPng, generateOp } from '@/lib/drawing';
+import { useHistory } from '@/hooks/use-history';
+import { api, ApiError } from '@/lib/api-client';
+import { cacheDrawing, getCachedDrawing, listCachedDrawings, getQueuedOps, saveQueuedOps, flushQueuedOps, sendOps } from '@/lib/offline-store';
+import { getCurrentUser, signOut } from '@/lib/auth';
+import { hasRole } from '@shared/access';
+import type { User, Drawing, Tool, Presence, Op, OpsSince, Template, Viewport, Point, DrawingElement, ElementStyleOptions } from '@shared/types';
+import { generateOp, zoomAtPoint, getCommonBounds, fitBoundsToViewport } from '@/lib/drawing';
+import { getEmbeddedFontCss } from '@/lib/fonts';
+import { exportToSvg, exportToPng, getExportElements, DEFAULT_EXPORT_SETTINGS, type ExportSettings } from '@/lib/export';
+import { embedSceneInPng, readSceneFromFile, createSceneFile, SceneFileError, SCENE_EXTENSION } from '@/lib/scene';
+import { readExcalidrawJson } from '@/lib/excalidraw';
 import { EmptyStateIllustration } from './EditorAssets';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
-import { v4 as uuidv4 } from 'uuid';
-import { MessageCircle, Send, Download } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { MessageCircle, Send, Download, History, Share2, LogOut, FolderOpen, FileDown } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
 const initialDrawing: Drawing = { id: '', title: 'Untitled', elements: [], updatedAt: 0, ops: [], opVersion: 0, presences: [] };
-const userId = `user-${uuidv4().slice(0, 4)}`;
 interface ChatMessage { role: 'user' | 'ai'; text: string; }
+type Camera = Pick<Viewport, 'x' | 'y' | 'zoom'>;
+const ZOOM_STEP = 1.2;
+// Live sync is REST polling: the storage-only Durable Object in core-utils exposes no socket handlers to broadcast through
+const POLL_INTERVAL = 2000;
+const PRESENCE_INTERVAL = 250;
+// How often a save that failed for lack of a connection is tried again
+const SAVE_RETRY_INTERVAL = 5000;
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a'); a.href = url; a.download = filename; a.click(); URL.revokeObjectURL(url);
+}
 export function HomePage() {
   const [activeTool, setActiveTool] = useState<Tool>('pen');
-  const [color, setColor] = useState('#f48018');
-  const [strokeWidth, setStrokeWidth] = useState(4);
+  const [styleOptions, setStyleOptions] = useState<ElementStyleOptions>({
+    color: '#f48018', strokeWidth: 4, opacity: 1, roughness: 1, strokeStyle: 'solid', fillColor: 'transparent', fillStyle: 'none', roundness: 0,
+    startArrowhead: 'none', endArrowhead: 'triangle', fontSize: 24, fontFamily: 'Inter',
+  });
+  const updateStyleOptions = useCallback((updates: Partial<ElementStyleOptions>) => setStyleOptions(prev => ({ ...prev, ...updates })), []);
+  const [user, setUser] = useState<User | null>(null);
   const [currentDrawingId, setCurrentDrawingId] = useState<string | null>(null);
   const [drawings, setDrawings] = useState<Drawing[]>([]);
   const [templates, setTemplates] = useState<Template[]>([]);
@@ -36,35 +63,59 @@ export function HomePage() {
   const [enableSnapping, setEnableSnapping] = useState(true);
   const [showCollabBanner, setShowCollabBanner] = useState(false);
   const [chatOpen, setChatOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
-  const [viewportOffset, setViewportOffset] = useState<Point>({ x: 0, y: 0 });
-  const { drawing, elements, setDrawing, undo, redo, canUndo, canRedo, createElement, createStroke, mergeRemoteOps, pendingOps, dispatchOp, setLocalCursor, selectedIds, onSelect, onDeselectAll, onDragMove, onResize } = useDraw(initialDrawing);
+  const { online = true } = useNetworkState();
+  const [saveNeedsRetry, setSaveNeedsRetry] = useState(false);
+  const [camera, setCamera] = useState<Camera>({ x: 0, y: 0, zoom: 1 });
+  const { drawing, elements, setDrawing, undo, redo, canUndo, canRedo, createElement, createStroke, mergeRemoteOps, pendingOps, localOps, confirmedElements, acknowledgeOps, restoreLocalOps, loadSnapshot, dispatchOp, updateSelectedElements, beginGesture, endGesture, cancelGesture, deleteElements, copySelected, insertElements, paste, setLocalCursor, selectedIds, selectedElements, onSelect, onDeselectAll, selectElements, selectAll, onDragMove, onResize, onMovePoint, onInsertPoint, onRemovePoint, moveElement, restoreElements } = useDraw(initialDrawing);
   const { width, height } = useWindowSize();
   const isMobile = useIsMobile();
-  const viewport = useRef<Viewport>({ x: viewportOffset.x, y: viewportOffset.y, width, height });
-  useEffect(() => { viewport.current = { x: viewportOffset.x, y: viewportOffset.y, width, height }; }, [width, height, viewportOffset]);
+  const [canvasContainerRef, canvasSize] = useMeasure<HTMLDivElement>();
+  const viewport = useMemo<Viewport>(() => ({ ...camera, width: canvasSize.width || width, height: canvasSize.height || height }), [camera, canvasSize.width, canvasSize.height, width, height]);
+  // Falls back to the copy on this device when the server can't be reached, and picks up ops queued there either way
   const loadDrawing = useCallback(async (id: string) => {
     try {
       setLoadError(null);
-      const loaded = await api<Drawing>(`/api/drawings/${id}`);
+      const queued = await getQueuedOps(id).catch(() => []);
+      let loaded: Drawing;
+      let fromCache = false;
+      try {
+        loaded = await api<Drawing>(`/api/drawings/${id}`);
+        cacheDrawing(loaded).catch(console.error);
+      } catch (error) {
+        const cached = error instanceof ApiError ? null : await getCachedDrawing(id);
+        if (!cached) throw error;
+        loaded = cached;
+        fromCache = true;
+      }
       setDrawing(loaded);
+      restoreLocalOps(queued);
       setCurrentDrawingId(id);
-      setViewportOffset({ x: 0, y: 0 });
-      toast.success(`Loaded "${loaded.title}"`);
+      setCamera({ x: 0, y: 0, zoom: 1 });
+      toast.success(fromCache ? `Opened the offline copy of "${loaded.title}"` : `Loaded "${loaded.title}"`);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to load drawing.';
       toast.error(errorMessage);
       setLoadError(errorMessage);
       setCurrentDrawingId(null);
     }
-  }, [setDrawing]);
+  }, [setDrawing, restoreLocalOps]);
   const loadDrawings = useCallback(async () => {
     try {
       setLoadError(null);
-      const { items } = await api<{ items: Drawing[] }>('/api/drawings');
+      let items: Drawing[];
+      try {
+        ({ items } = await api<{ items: Drawing[] }>('/api/drawings'));
+      } catch (error) {
+        if (error instanceof ApiError) throw error;
+        items = await listCachedDrawings();
+        toast.info('Offline: showing drawings saved on this device.');
+      }
       setDrawings(items);
       if (!currentDrawingId && items.length > 0) {
         loadDrawing(items[0].id);
@@ -85,10 +136,32 @@ export function HomePage() {
       toast.error('Failed to load templates.');
     }
   }, []);
+  // Needs a signed-in user first, then joins the drawing if the page was opened from a share link
   useEffect(() => {
+    const start = async () => {
+      const me = await getCurrentUser();
+      if (!me) return;
+      const params = new URLSearchParams(window.location.search);
+      const sharedId = params.get('drawing');
+      const token = params.get('share');
+      if (sharedId && token) {
+        window.history.replaceState(null, '', window.location.pathname);
+        try {
+          await api(`/api/drawings/${sharedId}/share-links/${token}/redeem`, { method: 'POST' });
+          await loadDrawing(sharedId);
+        } catch (error) {
+          toast.error('This share link is no longer valid.');
+        }
+      }
+      setUser(me);
+    };
+    start().catch(() => setLoadError('Failed to start a session.'));
+  }, [loadDrawing]);
+  useEffect(() => {
+    if (!user) return;
     loadDrawings();
     loadTemplates();
-  }, [loadDrawings, loadTemplates]);
+  }, [user, loadDrawings, loadTemplates]);
   const createNewDrawing = async (templateId?: string) => {
     try {
       const template = templateId ? templates.find(t => t.id === templateId) : null;
@@ -103,58 +176,128 @@ export function HomePage() {
       toast.error(error instanceof Error ? error.message : 'Failed to create new drawing.');
     }
   };
+  // `.leveragecanvas` and `.excalidraw` files, and exported SVG and PNG files that carry their scene, open as a new drawing,
+  // from the file picker or dropped on the canvas
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const openSceneFile = async (file: File) => {
+    try {
+      const { title, elements, appState, warnings } = await readSceneFromFile(file);
+      const newDrawing = await api<Drawing>('/api/drawings', { method: 'POST', body: JSON.stringify({ title, elements }) });
+      setDrawings(prev => [newDrawing, ...prev]);
+      await loadDrawing(newDrawing.id);
+      setCamera(appState.viewport);
+      setShowGrid(appState.showGrid);
+      setEnableSnapping(appState.enableSnapping);
+      toast.success(`Opened "${title}"`);
+      if (warnings.length > 0) toast.warning(`Some things couldn't be imported: ${warnings.join('; ')}`);
+    } catch (error) {
+      if (error instanceof SceneFileError && error.issues.length > 1) console.warn(`Problems in "${file.name}":`, error.issues);
+      toast.error(error instanceof Error ? error.message : 'Failed to open file.');
+    }
+  };
+  const saveSceneFile = () => {
+    if (!currentDrawingId) return;
+    downloadBlob(createSceneFile({ title: drawing.title, elements, appState: { viewport: camera, showGrid, enableSnapping }, files: {} }), `${drawing.title}${SCENE_EXTENSION}`);
+  };
+  const handleFileDrop = (e: React.DragEvent) => {
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    e.preventDefault();
+    openSceneFile(file);
+  };
+  // Ops stay queued (and persisted) until acknowledged, so a save that can't reach the server is simply tried again later
+  const saveInFlightRef = useRef(false);
   const handleSave = useCallback(async (ops: Op[]) => {
-    if (!currentDrawingId || ops.length === 0) return;
+    if (!currentDrawingId || ops.length === 0 || !online || saveInFlightRef.current) return;
+    saveInFlightRef.current = true;
     try {
-      await api(`/api/drawings/${currentDrawingId}/ops`, { method: 'POST', body: JSON.stringify(ops) });
-      setDrawing({ ...drawing, opVersion: (drawing.opVersion || 0) + ops.length });
+      const result = await sendOps(currentDrawingId, ops);
+      acknowledgeOps(result);
+      if (result.rejected.some(r => r.dropped)) toast.error('Some changes were too large or malformed to save and were discarded.');
+      setSaveNeedsRetry(false);
     } catch (error) {
-      toast.error('Failed to save changes.');
+      if (!(error instanceof ApiError)) setSaveNeedsRetry(true);
+      else if (error.code === 'forbidden') toast.error('You no longer have edit access to this drawing.');
+      else if (error.code === 'validation' || error.code === 'payload_too_large') toast.error(`Changes were rejected: ${error.message}`);
+      else toast.error('Failed to save changes.');
+    } finally {
+      saveInFlightRef.current = false;
     }
-  }, [currentDrawingId, drawing, setDrawing]);
+  }, [currentDrawingId, acknowledgeOps, online]);
+  // `handleSave` changes with `online`, so coming back online also sends whatever queued up meanwhile
   useDebounce(() => { handleSave(pendingOps); }, 1500, [pendingOps, handleSave]);
+  useInterval(() => { handleSave(pendingOps); }, saveNeedsRetry && online ? SAVE_RETRY_INTERVAL : null);
+  useEffect(() => {
+    if (currentDrawingId) saveQueuedOps(currentDrawingId, localOps).catch(console.error);
+  }, [currentDrawingId, localOps]);
+  useDebounce(() => {
+    if (currentDrawingId && drawing.id === currentDrawingId) cacheDrawing({ ...drawing, elements: confirmedElements }).catch(console.error);
+  }, 1000, [currentDrawingId, drawing, confirmedElements]);
+  useEffect(() => {
+    if (online && user) flushQueuedOps(currentDrawingId).catch(console.error);
+  }, [online, user, currentDrawingId]);
+  const pollInFlightRef = useRef(false);
+  const pendingCursorRef = useRef<Point | null>(null);
+  const presenceTimerRef = useRef<number | null>(null);
+  useEffect(() => () => { if (presenceTimerRef.current !== null) window.clearTimeout(presenceTimerRef.current); }, []);
   useInterval(() => {
     const poll = async () => {
-      if (!currentDrawingId) return;
+      // Skip while hidden, and never overlap polls: two responses for the same `since` would advance opVersion twice
+      if (!currentDrawingId || !online || document.hidden || pollInFlightRef.current) return;
+      pollInFlightRef.current = true;
       try {
-        const [remoteOps, remotePresences] = await Promise.all([
-          api<Op[]>(`/api/drawings/${currentDrawingId}/ops?since=${drawing.opVersion || 0}`),
+        const [remote, remotePresences] = await Promise.all([
+          api<OpsSince>(`/api/drawings/${currentDrawingId}/ops?since=${drawing.opVersion || 0}`),
           api<Presence[]>(`/api/drawings/${currentDrawingId}/presence`),
         ]);
-        if (remoteOps.length > 0) {
-          mergeRemoteOps(remoteOps);
-          setDrawing({ ...drawing, opVersion: (drawing.opVersion || 0) + remoteOps.length });
+        if (remote.reload) {
+          loadSnapshot(await api<Drawing>(`/api/drawings/${currentDrawingId}`));
+        } else if (mergeRemoteOps(remote.ops) > 0) {
           setShowCollabBanner(true);
           setTimeout(() => setShowCollabBanner(false), 3000);
         }
-        setPresences(remotePresences.filter(p => p.userId !== userId));
+        setPresences(remotePresences.filter(p => p.userId !== user?.id));
       } catch (error) {
         console.error("Polling failed:", error);
+      } finally {
+        pollInFlightRef.current = false;
       }
     };
     poll();
-  }, 2000);
+  }, POLL_INTERVAL);
   const handleCursorMove = useCallback((cursor: Point) => {
     setLocalCursor(cursor);
-    if (currentDrawingId) {
-      api(`/api/drawings/${currentDrawingId}/presence`, { method: 'POST', body: JSON.stringify({ userId, cursor }) }).catch(console.error);
-    }
+    if (!currentDrawingId) return;
+    // At most one presence post per interval, always carrying the latest cursor
+    pendingCursorRef.current = cursor;
+    if (presenceTimerRef.current !== null) return;
+    presenceTimerRef.current = window.setTimeout(() => {
+      presenceTimerRef.current = null;
+      const latest = pendingCursorRef.current;
+      pendingCursorRef.current = null;
+      if (latest) api(`/api/drawings/${currentDrawingId}/presence`, { method: 'POST', body: JSON.stringify({ cursor: latest }) }).catch(console.error);
+    }, PRESENCE_INTERVAL);
   }, [currentDrawingId, setLocalCursor]);
-  const handleExport = async (drawingToExport: Drawing, format: 'svg' | 'png', resolution = '1x') => {
+  const { history, checkpointScenes, preview: historyPreview, saveCheckpoint, previewSeq } = useHistory(currentDrawingId, historyOpen);
+  const handleRestore = useCallback((target: DrawingElement[], label: string) => {
+    restoreElements(target);
+    setHistoryOpen(false);
+    toast.success(`Restored ${label}`);
+  }, [restoreElements]);
+  const handleExport = async (drawingToExport: Drawing, format: 'svg' | 'png', settings: ExportSettings = DEFAULT_EXPORT_SETTINGS) => {
     try {
-      const scale = resolution === '2x' ? 2 : 1;
-      const exportWidth = (viewport.current.width || 1000) * scale;
-      const exportHeight = (viewport.current.height || 1000) * scale;
-      const svgString = exportToSvg(drawingToExport, exportWidth, exportHeight, viewportOffset);
-      const filename = `${drawingToExport.title}.${format}`;
-      if (format === 'svg') {
-        const blob = new Blob([svgString], { type: 'image/svg+xml' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a'); a.href = url; a.download = filename; a.click(); URL.revokeObjectURL(url);
-      } else {
-        const dataUrl = await exportToPng(svgString, exportWidth, exportHeight);
-        const a = document.createElement('a'); a.href = dataUrl; a.download = filename; a.click();
+      const exportElements = getExportElements(drawingToExport.elements, settings.scope, selectedIds);
+      const exported = exportToSvg(exportElements, { ...settings, title: drawingToExport.title, fontCss: await getEmbeddedFontCss(exportElements) });
+      if (!exported) {
+        toast.info('Nothing to export.');
+        return;
+      }
+      let blob = new Blob([exported.svg], { type: 'image/svg+xml' });
+      if (format === 'png') {
+        blob = await exportToPng(exported.svg, exported.width, exported.height);
+        if (settings.embedScene) blob = await embedSceneInPng(blob, exportElements, drawingToExport.title);
       }
+      downloadBlob(blob, `${drawingToExport.title}.${format}`);
       toast.success(`Exported as ${format.toUpperCase()}`);
     } catch (error) {
       toast.error('Export failed.');
@@ -173,7 +316,7 @@ export function HomePage() {
     setChatInput('');
     setIsChatLoading(true);
     try {
-      const context = { elements, ops: pendingOps, viewport: viewport.current, userId };
+      const context = { elements, ops: pendingOps, viewport, userId: user?.id };
       const res = await api<{ response: string }>('/api/ai-chat', { method: 'POST', body: JSON.stringify({ message: chatInput, context }) });
       const aiMessage: ChatMessage = { role: 'ai', text: res.response };
       setChatMessages(prev => [...prev, aiMessage]);
@@ -185,29 +328,80 @@ export function HomePage() {
     }
   };
   const onPan = useCallback((delta: Point) => {
-    setViewportOffset(prev => ({ x: prev.x + delta.x, y: prev.y + delta.y }));
+    setCamera(prev => ({ ...prev, x: prev.x + delta.x, y: prev.y + delta.y }));
   }, []);
+  const applyViewport = useCallback(({ x, y, zoom }: Viewport) => setCamera({ x, y, zoom }), []);
+  const onZoom = useCallback((zoom: number, anchor: Point) => {
+    applyViewport(zoomAtPoint(viewport, zoom, anchor));
+  }, [viewport, applyViewport]);
+  const zoomBy = useCallback((factor: number) => {
+    onZoom(viewport.zoom * factor, { x: viewport.width / 2, y: viewport.height / 2 });
+  }, [viewport, onZoom]);
+  const zoomToFit = useCallback(() => {
+    const bounds = getCommonBounds(elements);
+    if (bounds) applyViewport(fitBoundsToViewport(bounds, viewport));
+  }, [elements, viewport, applyViewport]);
+  const zoomToSelection = useCallback(() => {
+    const bounds = getCommonBounds(selectedElements);
+    if (bounds) applyViewport(fitBoundsToViewport(bounds, viewport, 40, 2));
+  }, [selectedElements, viewport, applyViewport]);
   const onRotate = useCallback((deltaAngle: number, id: string) => {
     const el = elements.find(e => e.id === id);
     if (el) {
       dispatchOp(generateOp('update', id, { angle: el.angle + deltaAngle }));
     }
   }, [elements, dispatchOp]);
-  const onReorder = useCallback((reorderedElements: DrawingElement[]) => {
-    dispatchOp(generateOp('reorder', undefined, reorderedElements));
-  }, [dispatchOp]);
+  const canEdit = hasRole(drawing.role ?? 'editor', 'editor');
+  const isOwner = drawing.role === 'owner';
   useHotkeys('v', () => setActiveTool('select'));
   useHotkeys('p', () => setActiveTool('pen'));
   useHotkeys('r', () => setActiveTool('rectangle'));
   useHotkeys('o', () => setActiveTool('ellipse'));
   useHotkeys('l', () => setActiveTool('line'));
+  useHotkeys('a', () => setActiveTool('arrow'));
   useHotkeys('t', () => setActiveTool('text'));
   useHotkeys('h', () => setActiveTool('hand'));
   useHotkeys('e', () => setActiveTool('eraser'));
-  useHotkeys('backspace, delete', () => { selectedIds.forEach(id => dispatchOp(generateOp('delete', id))); onDeselectAll(); });
+  useHotkeys('backspace, delete', () => deleteElements(selectedIds));
+  useHotkeys('mod+c', () => { if (copySelected() > 0) toast.success('Copied to clipboard'); });
+  useHotkeys('mod+a', (e) => { e.preventDefault(); setActiveTool('select'); selectAll(); });
+  useHotkeys('escape', onDeselectAll);
   useHotkeys('mod+z', undo);
   useHotkeys('mod+shift+z', redo);
   useHotkeys('mod+s', (e) => { e.preventDefault(); handleSave(pendingOps); });
+  useHotkeys('mod+shift+s', (e) => { e.preventDefault(); saveSceneFile(); });
+  useHotkeys('mod+o', (e) => { e.preventDefault(); fileInputRef.current?.click(); });
+  // Paste is handled as an event rather than a hotkey so the system clipboard can be read: elements copied in Excalidraw
+  // are imported, anything else pastes what was copied here
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+      e.preventDefault();
+      let imported: ReturnType<typeof readExcalidrawJson>;
+      try {
+        imported = readExcalidrawJson(e.clipboardData?.getData('text/plain') ?? '');
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to paste from Excalidraw.');
+        return;
+      }
+      if (!imported) {
+        paste();
+        return;
+      }
+      if (!canEdit) return;
+      const count = insertElements(imported.elements);
+      toast.success(`Pasted ${count} element${count === 1 ? '' : 's'} from Excalidraw`);
+      if (imported.warnings.length > 0) toast.warning(`Some things couldn't be pasted: ${imported.warnings.join('; ')}`);
+    };
+    document.addEventListener('paste', onPaste);
+    return () => document.removeEventListener('paste', onPaste);
+  }, [paste, insertElements, canEdit]);
+  useHotkeys('mod+equal', (e) => { e.preventDefault(); zoomBy(ZOOM_STEP); });
+  useHotkeys('mod+minus', (e) => { e.preventDefault(); zoomBy(1 / ZOOM_STEP); });
+  useHotkeys('mod+0', (e) => { e.preventDefault(); onZoom(1, { x: viewport.width / 2, y: viewport.height / 2 }); });
+  useHotkeys('shift+1', zoomToFit);
+  useHotkeys('shift+2', zoomToSelection);
   return (
     <AppLayout className="h-screen overflow-hidden !p-0">
       <ThemeToggle className="absolute top-4 right-4 z-20" />
@@ -217,42 +411,83 @@ export function HomePage() {
             <div className="h-6 w-6 rounded-md bg-gradient-to-br from-orange-500 to-amber-500" />
             <span className="font-display text-lg">LeverageCanvas</span>
           </div>
-          <div className="text-sm text-muted-foreground">{drawing.title}</div>
-          <Sheet>
-            <SheetTrigger asChild><Button variant="outline">My Drawings</Button></SheetTrigger>
-            <SheetContent>
-              <SheetHeader><SheetTitle>Your Drawings</SheetTitle></SheetHeader>
-              <Button onClick={() => createNewDrawing()} className="w-full my-4">Create New</Button>
-              <ScrollArea className="h-[calc(100%-100px)]">
-                <div className="space-y-2">
-                  {drawings.map(d => (
-                    <div key={d.id} className="p-2 rounded-md hover:bg-accent cursor-pointer border flex justify-between items-center">
-                      <div onClick={() => loadDrawing(d.id)} className="flex-1">
-                        <p className="font-medium">{d.title}</p>
-                        <p className="text-xs text-muted-foreground">Last updated: {new Date(d.updatedAt).toLocaleDateString()}</p>
-                      </div>
-                      <Button variant="ghost" size="icon" onClick={async () => {
-                        try {
-                          const fullDrawing = await api<Drawing>(`/api/drawings/${d.id}`);
-                          handleExport(fullDrawing, 'png');
-                        } catch (e) { toast.error('Failed to fetch drawing for export.'); }
-                      }}><Download className="h-4 w-4" /></Button>
-                    </div>
-                  ))}
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <span>
+              {drawing.title}
+              {currentDrawingId && !canEdit && <Badge variant="secondary" className="ml-2">View only</Badge>}
+            </span>
+            {currentDrawingId && <SyncIndicator status={!online ? 'offline' : localOps.length > 0 ? 'syncing' : 'online'} pendingCount={localOps.length} />}
+          </div>
+          <div className="flex items-center gap-2">
+            {currentDrawingId && <Button variant="outline" onClick={saveSceneFile} title={`Save as a ${SCENE_EXTENSION} file`}><FileDown className="h-4 w-4 mr-2" />Save to File</Button>}
+            {currentDrawingId && isOwner && (
+              <>
+                <Button variant="outline" onClick={() => setShareOpen(true)}><Share2 className="h-4 w-4 mr-2" />Share</Button>
+                <ShareDialog drawingId={currentDrawingId} open={shareOpen} onOpenChange={setShareOpen} />
+              </>
+            )}
+            {currentDrawingId && (
+              <Sheet open={historyOpen} onOpenChange={setHistoryOpen}>
+                <SheetTrigger asChild><Button variant="outline"><History className="h-4 w-4 mr-2" />History</Button></SheetTrigger>
+                <SheetContent className="flex flex-col">
+                  <SheetHeader><SheetTitle>Version History</SheetTitle></SheetHeader>
+                  <HistoryPanel
+                    history={history} checkpointScenes={checkpointScenes} preview={historyPreview}
+                    onPreviewSeq={seq => previewSeq(seq).catch(() => toast.error('That version is no longer available.'))}
+                    onSaveCheckpoint={name => saveCheckpoint(name).then(() => toast.success(`Saved checkpoint "${name}"`), () => toast.error('Failed to save checkpoint.'))}
+                    onRestore={handleRestore} readOnly={!canEdit}
+                  />
+                </SheetContent>
+              </Sheet>
+            )}
+            <input ref={fileInputRef} type="file" accept={`${SCENE_EXTENSION},.excalidraw,.svg,.png,image/svg+xml,image/png`} className="hidden" onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) openSceneFile(file);
+              e.target.value = '';
+            }} />
+            <Sheet>
+              <SheetTrigger asChild><Button variant="outline">My Drawings</Button></SheetTrigger>
+              <SheetContent>
+                <SheetHeader><SheetTitle>Your Drawings</SheetTitle></SheetHeader>
+                <div className="flex gap-2 my-4">
+                  <Button onClick={() => createNewDrawing()} className="flex-1">Create New</Button>
+                  <Button variant="outline" onClick={() => fileInputRef.current?.click()} title={`Open a ${SCENE_EXTENSION} or .excalidraw file, or an exported SVG or PNG`}><FolderOpen className="h-4 w-4 mr-2" />Open File</Button>
                 </div>
-              </ScrollArea>
-            </SheetContent>
-          </Sheet>
+                <ScrollArea className="h-[calc(100%-100px)]">
+                  <div className="space-y-2">
+                    {drawings.map(d => (
+                      <div key={d.id} className="p-2 rounded-md hover:bg-accent cursor-pointer border flex justify-between items-center">
+                        <div onClick={() => loadDrawing(d.id)} className="flex-1">
+                          <p className="font-medium">{d.title}</p>
+                          <p className="text-xs text-muted-foreground">Last updated: {new Date(d.updatedAt).toLocaleDateString()}</p>
+                        </div>
+                        <Button variant="ghost" size="icon" onClick={async () => {
+                          try {
+                            const fullDrawing = await api<Drawing>(`/api/drawings/${d.id}`);
+                            handleExport(fullDrawing, 'png');
+                          } catch (e) { toast.error('Failed to fetch drawing for export.'); }
+                        }}><Download className="h-4 w-4" /></Button>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </SheetContent>
+            </Sheet>
+            {user && <Button variant="ghost" onClick={signOut} title={`Signed in as ${user.name}`}><LogOut className="h-4 w-4 mr-2" />Sign out</Button>}
+          </div>
         </header>
-        <main className="flex-1 relative">
-          <EditorToolbar
-            activeTool={activeTool} onToolChange={setActiveTool} color={color} onColorChange={setColor}
+        <main className="flex-1 relative" onDragOver={e => e.dataTransfer.types.includes('Files') && e.preventDefault()} onDrop={handleFileDrop}>
+          {canEdit && <EditorToolbar
+            activeTool={activeTool} onToolChange={setActiveTool} color={styleOptions.color} onColorChange={color => updateStyleOptions({ color })}
+            roughness={styleOptions.roughness} onRoughnessChange={roughness => updateStyleOptions({ roughness })}
+            startArrowhead={styleOptions.startArrowhead ?? 'none'} endArrowhead={styleOptions.endArrowhead ?? 'triangle'}
+            onStartArrowheadChange={startArrowhead => updateStyleOptions({ startArrowhead })} onEndArrowheadChange={endArrowhead => updateStyleOptions({ endArrowhead })}
             onUndo={undo} onRedo={redo} canUndo={canUndo} canRedo={canRedo}
-            onSave={() => handleSave(pendingOps)} onExport={(format, res) => handleExport({ ...drawing, elements }, format, res)}
+            onSave={() => handleSave(pendingOps)} onExport={(format, settings) => handleExport({ ...drawing, elements }, format, settings)} hasSelection={selectedIds.length > 0}
             showGrid={showGrid} onToggleGrid={() => setShowGrid(!showGrid)}
             enableSnapping={enableSnapping} onToggleSnapping={() => setEnableSnapping(!enableSnapping)}
             templates={templates} onLoadTemplate={(id) => createNewDrawing(id)}
-          />
+          />}
           <AnimatePresence>
             {showCollabBanner && (
               <motion.div
@@ -268,20 +503,36 @@ export function HomePage() {
             <div className="py-4 md:py-6 lg:py-8 h-full">
               {currentDrawingId ? (
                 <ResizablePanelGroup direction="horizontal" className="h-full rounded-lg border">
-                  <ResizablePanel defaultSize={80}>
-                    <ExcalidrawCanvas
-                      elements={elements} tool={activeTool} color={color} strokeWidth={strokeWidth}
-                      onCreateElement={createElement} onCreateStroke={createStroke} onUpdateElement={handleUpdateElement}
-                      onDeleteElement={handleDeleteElement}
-                      onCursorMove={handleCursorMove} presences={presences} showGrid={showGrid} enableSnapping={enableSnapping}
-                      viewport={viewport.current} selectedIds={selectedIds} onSelect={onSelect} onDeselectAll={onDeselectAll}
-                      onDragMove={onDragMove} onResize={onResize} onRotate={onRotate} onPan={onPan} isMobile={isMobile}
-                    />
-                  </ResizablePanel>
-                  <ResizableHandle withHandle />
-                  <ResizablePanel defaultSize={20} minSize={15} maxSize={25}>
-                    <LayersPanel elements={elements} onDispatchOp={dispatchOp} onReorder={onReorder} />
+                  <ResizablePanel defaultSize={canEdit ? 80 : 100}>
+                    <div ref={canvasContainerRef} className="h-full w-full relative">
+                      <ExcalidrawCanvas
+                        elements={elements} tool={activeTool} styleOptions={styleOptions}
+                        onCreateElement={createElement} onCreateStroke={createStroke} onUpdateElement={handleUpdateElement}
+                        onDeleteElement={handleDeleteElement}
+                        onCursorMove={handleCursorMove} presences={presences} showGrid={showGrid} enableSnapping={enableSnapping}
+                        viewport={viewport} selectedIds={selectedIds} onSelect={onSelect} onDeselectAll={onDeselectAll} onSelectElements={selectElements}
+                        onDragMove={onDragMove} onResize={onResize} onRotate={onRotate} onPan={onPan} onZoom={onZoom} isMobile={isMobile}
+                        onMovePoint={onMovePoint} onInsertPoint={onInsertPoint} onRemovePoint={onRemovePoint}
+                        onGestureStart={beginGesture} onGestureEnd={endGesture} onGestureCancel={cancelGesture} readOnly={!canEdit}
+                      />
+                      <ZoomControls
+                        zoom={viewport.zoom} onZoomIn={() => zoomBy(ZOOM_STEP)} onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+                        onResetZoom={() => onZoom(1, { x: viewport.width / 2, y: viewport.height / 2 })}
+                        onZoomToFit={zoomToFit} onZoomToSelection={zoomToSelection} hasSelection={selectedIds.length > 0}
+                      />
+                    </div>
                   </ResizablePanel>
+                  {canEdit && (
+                    <>
+                      <ResizableHandle withHandle />
+                      <ResizablePanel defaultSize={20} minSize={15} maxSize={25}>
+                        <div className="h-full flex flex-col gap-2 overflow-y-auto">
+                          <PropertiesPanel selectedElements={selectedElements} activeTool={activeTool} styleOptions={styleOptions} onStyleOptionsChange={updateStyleOptions} onUpdateSelected={updateSelectedElements} />
+                          <div className="flex-1 min-h-[200px]"><LayersPanel elements={elements} onDispatchOp={dispatchOp} onMoveElement={moveElement} /></div>
+                        </div>
+                      </ResizablePanel>
+                    </>
+                  )}
                 </ResizablePanelGroup>
               ) : (
                 <div className="w-full h-full flex flex-col items-center justify-center bg-muted/50 rounded-lg">
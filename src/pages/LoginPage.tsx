@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { signIn, signUp } from '@/lib/auth';
+type Mode = 'signin' | 'signup';
+export function LoginPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [mode, setMode] = useState<Mode>('signin');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // Only follow same-site paths back, never an arbitrary URL from the query string
+  const next = searchParams.get('next');
+  const returnTo = next?.startsWith('/') && !next.startsWith('//') ? next : '/';
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (mode === 'signin') await signIn(username, password);
+      else await signUp(username, password, name || undefined);
+      navigate(returnTo, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+  return (
+    <AppLayout className="h-screen flex items-center justify-center">
+      <ThemeToggle className="absolute top-4 right-4" />
+      <Card className="w-full max-w-sm">
+        <CardHeader className="items-center gap-2">
+          <div className="h-8 w-8 rounded-md bg-gradient-to-br from-orange-500 to-amber-500" />
+          <CardTitle className="font-display">LeverageCanvas</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={mode} onValueChange={v => { setMode(v as Mode); setError(null); }} className="mb-4">
+            <TabsList className="grid grid-cols-2">
+              <TabsTrigger value="signin">Sign in</TabsTrigger>
+              <TabsTrigger value="signup">Create account</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input id="username" value={username} onChange={e => setUsername(e.target.value)} autoComplete="username" required />
+            </div>
+            {mode === 'signup' && (
+              <div className="space-y-2">
+                <Label htmlFor="name">Display name</Label>
+                <Input id="name" value={name} onChange={e => setName(e.target.value)} placeholder="Optional" autoComplete="nickname" />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input id="password" type="password" value={password} onChange={e => setPassword(e.target.value)} autoComplete={mode === 'signin' ? 'current-password' : 'new-password'} required />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" className="w-full" disabled={submitting}>{mode === 'signin' ? 'Sign in' : 'Create account'}</Button>
+          </form>
+        </CardContent>
+      </Card>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Kept apart from vite.config.ts so tests don't start the Cloudflare plugin or the dev-server logging
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "./shared"),
+      // Only the workerd runtime provides this; entities run on in-memory storage instead (worker/test-env.ts)
+      "cloudflare:workers": path.resolve(__dirname, "./worker/test-durable-object.ts"),
+    },
+  },
+  test: {
+    include: ["shared/**/*.test.ts", "src/**/*.test.ts", "worker/**/*.test.ts"],
+  },
+});
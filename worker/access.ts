@@ -0,0 +1,40 @@
+import type { Context } from "hono";
+import type { Env } from './core-utils';
+import type { Drawing, Role, User } from "@shared/types";
+import { hasRole } from "@shared/access";
+import { DrawingEntity } from "./entities";
+import { unauthorized, forbidden, notFound } from "./validation";
+type AppContext = Context<{ Bindings: Env }>;
+// The signed-in user, put on the context by the `authenticate` middleware
+export function getCurrentUser(c: Context): User | null {
+  return c.get('user') ?? null;
+}
+export function getRole(drawing: Drawing, userId: string): Role | null {
+  if (!drawing.ownerId) return 'editor';
+  if (drawing.ownerId === userId) return 'owner';
+  return drawing.access?.[userId] ?? null;
+}
+// Access details are the owner's business; everyone else gets the drawing and their own role
+export function toClientDrawing(drawing: Drawing, role: Role): Drawing {
+  const { access, shareLinks, ...rest } = drawing;
+  return role === 'owner' ? { ...rest, access, shareLinks, role } : { ...rest, role };
+}
+export interface DrawingAccess {
+  entity: DrawingEntity;
+  drawing: Drawing;
+  user: User;
+  role: Role;
+}
+// Resolves the drawing and the caller's role on it, or the error response to send instead.
+// Drawings the caller has no role on answer 404 so their ids can't be probed.
+export async function authorizeDrawing(c: AppContext, id: string, minRole: Role): Promise<DrawingAccess | Response> {
+  const user = getCurrentUser(c);
+  if (!user) return unauthorized(c, 'user required');
+  const entity = new DrawingEntity(c.env, id);
+  if (!(await entity.exists())) return notFound(c, 'drawing not found');
+  const drawing = await entity.getState();
+  const role = getRole(drawing, user.id);
+  if (!role) return notFound(c, 'drawing not found');
+  if (!hasRole(role, minRole)) return forbidden(c, `${minRole} access required`);
+  return { entity, drawing, user, role };
+}
@@ -0,0 +1,78 @@
+import type { MiddlewareHandler } from "hono";
+import type { Env } from './core-utils';
+import type { User } from "@shared/types";
+import { UserEntity, SessionSecretEntity } from "./entities";
+import { unauthorized } from "./validation";
+declare module "hono" {
+  interface ContextVariableMap {
+    // Set by `authenticate` when the request carries a valid session token
+    user?: User;
+  }
+}
+// Workers cap PBKDF2 at 100k iterations; the count is stored with each hash so it can be raised later
+export const PASSWORD_ITERATIONS = 100_000;
+export const SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+const encoder = new TextEncoder();
+const toHex = (bytes: ArrayBuffer | Uint8Array) => Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+const toBase64Url = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+function fromBase64Url(text: string): Uint8Array | null {
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+// --- Passwords ---
+export async function hashPassword(password: string, salt: string, iterations = PASSWORD_ITERATIONS): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations }, key, 256);
+  return toHex(bits);
+}
+export async function verifyPassword(password: string, credential: { salt: string; hash: string; iterations: number }): Promise<boolean> {
+  const hash = await hashPassword(password, credential.salt, credential.iterations);
+  // Compare every character so the time taken doesn't reveal how much of the hash matched
+  let diff = hash.length ^ credential.hash.length;
+  for (let i = 0; i < hash.length; i++) diff |= hash.charCodeAt(i) ^ (credential.hash.charCodeAt(i) || 0);
+  return diff === 0;
+}
+// --- Session Tokens ---
+// A token is `<payload>.<signature>`, both base64url: the payload names the user and expiry, the signature is an HMAC over it
+interface SessionPayload { sub: string; exp: number }
+async function getSigningKey(env: Env): Promise<CryptoKey> {
+  const secret = await new SessionSecretEntity(env, 'global').getSecret();
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+export async function createSessionToken(env: Env, userId: string): Promise<{ token: string; expiresAt: number }> {
+  const expiresAt = Date.now() + SESSION_TTL;
+  const payload = toBase64Url(encoder.encode(JSON.stringify({ sub: userId, exp: expiresAt } satisfies SessionPayload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(env), encoder.encode(payload));
+  return { token: `${payload}.${toBase64Url(new Uint8Array(signature))}`, expiresAt };
+}
+// The user id a token was issued to, or null if it is malformed, forged or expired
+export async function verifySessionToken(env: Env, token: string): Promise<string | null> {
+  const [payload, signature, ...rest] = token.split('.');
+  const signatureBytes = signature && fromBase64Url(signature);
+  if (!payload || !signatureBytes || rest.length > 0) return null;
+  if (!(await crypto.subtle.verify('HMAC', await getSigningKey(env), signatureBytes, encoder.encode(payload)))) return null;
+  try {
+    const { sub, exp } = JSON.parse(new TextDecoder().decode(fromBase64Url(payload) ?? new Uint8Array())) as SessionPayload;
+    return typeof sub === 'string' && typeof exp === 'number' && exp > Date.now() ? sub : null;
+  } catch {
+    return null;
+  }
+}
+// Puts the signed-in user on the context. Requests without a token pass through anonymously and routes
+// decide whether they need a user; a token that doesn't check out is a 401 so the client signs in again.
+// Sign-in routes never look at the token, so a stale one left in storage can't block getting a new one.
+export const authenticate: MiddlewareHandler<{ Bindings: Env }> = async (c, next) => {
+  const header = c.req.header('Authorization');
+  if (!header || c.req.path.startsWith('/api/auth/')) return next();
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  const userId = token ? await verifySessionToken(c.env, token) : null;
+  if (!userId) return unauthorized(c, 'invalid session');
+  const user = new UserEntity(c.env, userId);
+  if (!(await user.exists())) return unauthorized(c, 'invalid session');
+  c.set('user', await user.getState());
+  await next();
+};
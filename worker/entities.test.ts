@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { DrawingElement, Op } from '@shared/types';
+import { DrawingEntity } from './entities';
+import { createTestEnv } from './test-env';
+
+const addOp = (id: string): Op => {
+  const element: DrawingElement = { id, type: 'rectangle', x: 0, y: 0, width: 10, height: 10, angle: 0, strokeColor: '#1e1e1e', strokeWidth: 1, opacity: 1, fillColor: 'transparent', strokeStyle: 'solid', index: 'a0' };
+  return { id: `op-${id}`, type: 'add', data: element, ts: 0 };
+};
+const addOps = (from: number, count: number) => Array.from({ length: count }, (_, i) => addOp(`el-${from + i}`));
+
+describe('DrawingEntity.appendOps', () => {
+  it('recognises an op resent after a snapshot has moved past it', async () => {
+    const drawing = new DrawingEntity(createTestEnv(), 'resend');
+    const first = addOp('first');
+    expect((await drawing.appendOps([first])).seqs).toEqual({ [first.id]: 1 });
+    // Enough ops for a snapshot, which moves opVersion past `first`
+    await drawing.appendOps(addOps(0, 250));
+    expect((await drawing.getState()).opVersion).toBeGreaterThan(1);
+    const resent = await drawing.appendOps([first]);
+    expect(resent.seqs).toEqual({ [first.id]: 1 });
+    expect(resent.rejected).toEqual([]);
+    const scene = await drawing.getSnapshot();
+    expect(scene.opVersion).toBe(251);
+    expect(scene.elements).toHaveLength(251);
+  });
+
+  it('recognises ops in chunks the latest snapshot no longer needs but has not compacted', async () => {
+    const drawing = new DrawingEntity(createTestEnv(), 'resend-twice');
+    await drawing.appendOps(addOps(0, 250));
+    const stored = addOps(1000, 10);
+    const seqs = (await drawing.appendOps(stored)).seqs;
+    // A second snapshot, after which the first one's chunks are compacted away
+    await drawing.appendOps(addOps(250, 250));
+    const state = await drawing.getState();
+    expect(state.opVersion).toBeGreaterThan(260);
+    expect(state.compactedSeq ?? 0).toBeLessThan(251);
+    expect((await drawing.appendOps(stored)).seqs).toEqual(seqs);
+    expect((await drawing.getOpsSince(state.compactedSeq ?? 0)).ops.map(op => op.seq)).toEqual(Array.from({ length: 510 - (state.compactedSeq ?? 0) }, (_, i) => (state.compactedSeq ?? 0) + i + 1));
+  });
+});
@@ -1,9 +1,11 @@
 /**
  * Minimal real-world demo: One Durable Object instance per entity (User, ChatBoard), with Indexes for listing.
  */
-import { IndexedEntity } from "./core-utils";
-import type { User, Chat, ChatMessage, Drawing, Op, DrawingElement, Presence, StrokeElement, RectangleElement, EllipseElement, LineElement, ArrowElement, TextElement } from "@shared/types";
+import { Entity, IndexedEntity } from "./core-utils";
+import type { User, Chat, ChatMessage, Drawing, DrawingElement, Op, AppendOpsResult, OpsSince, RejectedOp, Checkpoint, CheckpointList, HistoryScene, Presence, Role, ShareLink } from "@shared/types";
 import { MOCK_CHAT_MESSAGES, MOCK_CHATS, MOCK_USERS, MOCK_DRAWINGS } from "@shared/mock-data";
+import { reduceOps, applyOpsToElements } from "@shared/reducer";
+import { hasRole } from "@shared/access";
 // USER ENTITY: one DO instance per user
 export class UserEntity extends IndexedEntity<User> {
   static readonly entityName = "user";
@@ -11,6 +13,35 @@ export class UserEntity extends IndexedEntity<User> {
   static readonly initialState: User = { id: "", name: "" };
   static seedData = MOCK_USERS;
 }
+// CREDENTIAL ENTITY: one DO instance per lower-cased username, kept apart from UserEntity so hashes never reach clients
+export type CredentialState = { userId: string; salt: string; hash: string; iterations: number };
+export class CredentialEntity extends Entity<CredentialState> {
+  static readonly entityName = "credential";
+  static readonly initialState: CredentialState = { userId: "", salt: "", hash: "", iterations: 0 };
+  // Takes the username for `credential.userId`; false if someone already has it
+  async claim(credential: CredentialState): Promise<boolean> {
+    const s = await this.mutate(s => s.userId ? s : credential);
+    return s.userId === credential.userId;
+  }
+}
+// SESSION SECRET: the HMAC key session tokens are signed with, generated on first use
+export type SessionSecretState = { secret: string };
+let cachedSessionSecret: string | null = null;
+export class SessionSecretEntity extends Entity<SessionSecretState> {
+  static readonly entityName = "session-secret";
+  static readonly initialState: SessionSecretState = { secret: "" };
+  async getSecret(): Promise<string> {
+    if (cachedSessionSecret) return cachedSessionSecret;
+    let { secret } = await this.getState();
+    if (!secret) {
+      const generated = Array.from(crypto.getRandomValues(new Uint8Array(32)), b => b.toString(16).padStart(2, '0')).join('');
+      // Two isolates racing here must end up signing with the same key, so keep whichever was stored first
+      ({ secret } = await this.mutate(s => s.secret ? s : { secret: generated }));
+    }
+    cachedSessionSecret = secret;
+    return secret;
+  }
+}
 // CHAT BOARD ENTITY: one DO instance per chat board, stores its own messages
 export type ChatBoardState = Chat & { messages: ChatMessage[] };
 const SEED_CHAT_BOARDS: ChatBoardState[] = MOCK_CHATS.map(c => ({
@@ -32,54 +63,20 @@ export class ChatBoardEntity extends IndexedEntity<ChatBoardState> {
     return msg;
   }
 }
-// Helper to apply ops to an element list with type safety
-function applyOpsToElements(ops: Op[], initialElements: DrawingElement[] = []): DrawingElement[] {
-  const elementsMap = new Map(initialElements.map(el => [el.id, el]));
-  ops.forEach(op => {
-    switch (op.type) {
-      case 'add':
-        if (op.data && typeof op.data === 'object' && 'type' in op.data && 'id' in op.data) {
-          const el = op.data as DrawingElement;
-          // Use discriminated union type guards
-          switch (el.type) {
-            case 'stroke':
-              if ('points' in el) elementsMap.set(el.id, el as StrokeElement);
-              break;
-            case 'rectangle':
-              if ('fillColor' in el) elementsMap.set(el.id, el as RectangleElement);
-              break;
-            case 'ellipse':
-              if ('fillColor' in el) elementsMap.set(el.id, el as EllipseElement);
-              break;
-            case 'line':
-              if ('points' in el) elementsMap.set(el.id, el as LineElement);
-              break;
-            case 'arrow':
-              if ('points' in el) elementsMap.set(el.id, el as ArrowElement);
-              break;
-            case 'text':
-              if ('text' in el) elementsMap.set(el.id, el as TextElement);
-              break;
-            default:
-              console.warn('Invalid element type in op data:', el);
-          }
-        }
-        break;
-      case 'update':
-        if (op.elementId && op.data && elementsMap.has(op.elementId)) {
-          const existing = elementsMap.get(op.elementId)!;
-          const updatedElement = { ...existing, ...op.data };
-          elementsMap.set(op.elementId, updatedElement as DrawingElement);
-        }
-        break;
-      case 'delete':
-        if (op.elementId && elementsMap.has(op.elementId)) {
-          elementsMap.delete(op.elementId);
-        }
-        break;
-    }
-  });
-  return Array.from(elementsMap.values());
+// DRAWING OP LOG: ops after the last compaction, split into fixed-size chunks with one document each.
+// Chunk n holds seqs n * opsPerChunk + 1 through (n + 1) * opsPerChunk, so no index of chunks is needed.
+export type DrawingOpChunkState = { ops: Op[] };
+export class DrawingOpChunkEntity extends Entity<DrawingOpChunkState> {
+  static readonly entityName = "drawing-ops";
+  static readonly initialState: DrawingOpChunkState = { ops: [] };
+}
+// DRAWING CHECKPOINTS: the scene at a checkpoint, one document each, so history survives compaction of the op log
+const AUTO_CHECKPOINT_INTERVAL = 10 * 60 * 1000;
+const MAX_AUTO_CHECKPOINTS = 50;
+export type DrawingCheckpointState = { elements: DrawingElement[] };
+export class DrawingCheckpointEntity extends Entity<DrawingCheckpointState> {
+  static readonly entityName = "drawing-checkpoint";
+  static readonly initialState: DrawingCheckpointState = { elements: [] };
 }
 // DRAWING ENTITY
 export class DrawingEntity extends IndexedEntity<Drawing> {
@@ -87,23 +84,95 @@ export class DrawingEntity extends IndexedEntity<Drawing> {
   static readonly indexName = "drawings";
   static readonly initialState: Drawing = { id: "", title: "Untitled", elements: [], updatedAt: 0, ops: [], opVersion: 0, presences: [] };
   static seedData = MOCK_DRAWINGS;
-  async appendOps(ops: Op[]): Promise<void> {
-    if (ops.length === 0) return;
+  // Statics rather than constants so tests can cross chunk and snapshot boundaries in a handful of ops
+  static opsPerChunk = 100;
+  // Fold the log into the drawing's `elements` once this many ops have piled up past the last snapshot
+  static snapshotInterval = 200;
+  private chunk(index: number): DrawingOpChunkEntity {
+    return new DrawingOpChunkEntity(this.env, `${this.id}:${index}`);
+  }
+  private checkpointScene(checkpointId: string): DrawingCheckpointEntity {
+    return new DrawingCheckpointEntity(this.env, `${this.id}:${checkpointId}`);
+  }
+  // Chunks from the one holding seq `afterSeq + 1` up to the head, which is the first chunk that is not full
+  private async loadChunks(afterSeq: number): Promise<{ index: number; ops: Op[] }[]> {
+    const { opsPerChunk } = this.constructor as typeof DrawingEntity;
+    const chunks: { index: number; ops: Op[] }[] = [];
+    for (let index = Math.floor(afterSeq / opsPerChunk); ; index++) {
+      const { ops } = await this.chunk(index).getState();
+      chunks.push({ index, ops });
+      if (ops.length === 0 || ops[ops.length - 1].seq! < (index + 1) * opsPerChunk) return chunks;
+    }
+  }
+  // Drawings stored before chunking keep their whole log in `ops`, already folded into `elements`; it is simply dropped
+  private async migrateLegacyLog(): Promise<Drawing> {
+    const state = await this.getState();
+    if (!state.ops?.length) return state;
+    return this.mutate(s => s.ops?.length ? { ...s, ops: [], compactedSeq: Math.max(s.compactedSeq ?? 0, s.opVersion) } : s);
+  }
+  // The current scene: the stored snapshot with the ops since it folded in, as of seq `opVersion`.
+  // Clients fetch the ops after it with getOpsSince; the list and templates read it as is.
+  async getSnapshot(): Promise<Drawing> {
+    const state = await this.migrateLegacyLog();
+    const ops = await this.getOpsAfterSnapshot(state);
+    return { ...state, elements: applyOpsToElements(ops, state.elements), opVersion: state.opVersion + ops.length, ops: [] };
+  }
+  // Ops are stored in arrival order and numbered here; client clocks never decide the order.
+  // Resubmitted ops (same id) are not stored again but still report their existing seq. Every chunk not yet compacted
+  // is checked, not just those after the snapshot, so an op resent across a snapshot (a lost response, a replayed
+  // offline queue) is still recognised.
+  async appendOps(ops: Op[]): Promise<AppendOpsResult> {
+    const { opsPerChunk, snapshotInterval } = this.constructor as typeof DrawingEntity;
     for (let attempt = 0; attempt < 3; attempt++) {
       try {
-        const sortedOps = ops.sort((a, b) => a.ts - b.ts);
-        await this.mutate(s => {
-          const newElements = applyOpsToElements(sortedOps, s.elements);
-          const allOps = [...(s.ops || []), ...sortedOps];
-          return {
-            ...s,
-            elements: newElements,
-            ops: allOps,
-            opVersion: (s.opVersion || 0) + sortedOps.length,
-            updatedAt: Date.now(),
-          };
-        });
-        return; // Success
+        const state = await this.migrateLegacyLog();
+        const chunks = await this.loadChunks(state.compactedSeq ?? 0);
+        const seqs: Record<string, number> = {};
+        chunks.forEach(c => c.ops.forEach(op => { seqs[op.id] = op.seq!; }));
+        const fresh: Op[] = [];
+        let remaining = ops.filter(op => seqs[op.id] === undefined);
+        let index = chunks[chunks.length - 1].index;
+        let headSeq = state.opVersion;
+        while (remaining.length > 0) {
+          let stored: Op[] = [];
+          let overflow: Op[] = [];
+          await this.chunk(index).mutate(s => {
+            const chunkSeqs = new Map(s.ops.map(op => [op.id, op.seq!]));
+            // An empty head chunk continues right after the previous (full) chunk, or after the migrated legacy log
+            let lastSeq = s.ops.length > 0 ? s.ops[s.ops.length - 1].seq! : Math.max(index * opsPerChunk, state.opVersion);
+            stored = [];
+            overflow = [];
+            for (const op of remaining) {
+              const existing = chunkSeqs.get(op.id);
+              if (existing !== undefined) seqs[op.id] = existing;
+              else if (lastSeq === (index + 1) * opsPerChunk) overflow.push(op);
+              else {
+                lastSeq++;
+                chunkSeqs.set(op.id, lastSeq);
+                stored.push({ ...op, seq: lastSeq });
+              }
+            }
+            headSeq = lastSeq;
+            return stored.length > 0 ? { ops: [...s.ops, ...stored] } : s;
+          });
+          stored.forEach(op => { seqs[op.id] = op.seq!; });
+          fresh.push(...stored);
+          remaining = overflow;
+          index++;
+        }
+        const rejected = fresh.length > 0 ? await this.getRejectedOps(state, chunks, fresh) : [];
+        // The scene itself is only folded in every snapshotInterval ops, but "last updated" follows every change
+        if (fresh.length > 0) await this.patch({ updatedAt: Date.now() });
+        if (headSeq - state.opVersion >= snapshotInterval) await this.takeSnapshot(state);
+        // Automatic checkpoints only follow activity: the first change after the interval takes one
+        const lastCheckpointAt = Math.max(0, ...(state.checkpoints ?? []).map(cp => cp.createdAt));
+        if (fresh.length > 0 && Date.now() - lastCheckpointAt >= AUTO_CHECKPOINT_INTERVAL) await this.createCheckpoint('Autosave', true);
+        return {
+          fromSeq: fresh.length > 0 ? fresh[0].seq! : headSeq + 1,
+          toSeq: fresh.length > 0 ? fresh[fresh.length - 1].seq! : headSeq,
+          seqs: Object.fromEntries(ops.map(op => [op.id, seqs[op.id]])),
+          rejected,
+        };
       } catch (err: any) {
         if (err.message.includes('Concurrent') && attempt < 2) {
           console.warn(`DO contention on appendOps (attempt ${attempt + 1}), retrying...`);
@@ -113,10 +182,104 @@ export class DrawingEntity extends IndexedEntity<Drawing> {
         throw err;
       }
     }
+    throw new Error('Concurrent modification detected');
   }
-  async getOpsSince(version: number): Promise<Op[]> {
-    const state = await this.getState();
-    return (state.ops || []).slice(version);
+  // What the reducer skips among the newly stored ops, replayed on the snapshot plus the log as it was read before storing
+  private async getRejectedOps(state: Drawing, chunks: { ops: Op[] }[], fresh: Op[]): Promise<RejectedOp[]> {
+    const before = chunks.flatMap(c => c.ops).filter(op => op.seq! > state.opVersion);
+    return reduceOps(fresh, applyOpsToElements(before, state.elements)).rejected;
+  }
+  // Folds every op after the current snapshot into `elements`, then drops the chunks the previous snapshot already covered
+  // so clients lagging by less than one snapshot interval can still catch up op by op.
+  private async takeSnapshot(state: Drawing): Promise<void> {
+    const { opsPerChunk } = this.constructor as typeof DrawingEntity;
+    const ops = await this.getOpsAfterSnapshot(state);
+    if (ops.length === 0) return;
+    const elements = applyOpsToElements(ops, state.elements);
+    const compactedSeq = Math.max(state.compactedSeq ?? 0, Math.floor(state.opVersion / opsPerChunk) * opsPerChunk);
+    let taken = false;
+    await this.mutate(s => {
+      // Another request got there first
+      taken = s.opVersion === state.opVersion;
+      return taken ? { ...s, elements, opVersion: state.opVersion + ops.length, compactedSeq, updatedAt: Date.now() } : s;
+    });
+    if (!taken) return;
+    const first = Math.floor((state.compactedSeq ?? 0) / opsPerChunk);
+    const stale = Array.from({ length: Math.max(0, Math.floor(compactedSeq / opsPerChunk) - first) }, (_, i) => this.chunk(first + i));
+    await Promise.all(stale.map(chunk => chunk.delete()));
+  }
+  // The contiguous run of ops from the snapshot up to the head
+  private async getOpsAfterSnapshot(state: Drawing): Promise<Op[]> {
+    const ops: Op[] = [];
+    for (const op of (await this.loadChunks(state.opVersion)).flatMap(c => c.ops)) {
+      if (op.seq! <= state.opVersion) continue;
+      if (op.seq !== state.opVersion + ops.length + 1) break;
+      ops.push(op);
+    }
+    return ops;
+  }
+  async createCheckpoint(name: string, auto = false): Promise<Checkpoint> {
+    const state = await this.migrateLegacyLog();
+    const ops = await this.getOpsAfterSnapshot(state);
+    const checkpoint: Checkpoint = { id: crypto.randomUUID(), name, seq: state.opVersion + ops.length, createdAt: Date.now(), auto };
+    await this.checkpointScene(checkpoint.id).save({ elements: applyOpsToElements(ops, state.elements) });
+    let dropped: Checkpoint[] = [];
+    await this.mutate(s => {
+      const checkpoints = [...(s.checkpoints ?? []), checkpoint];
+      const autos = checkpoints.filter(cp => cp.auto);
+      // Named checkpoints are kept forever; only the oldest automatic ones are pruned
+      dropped = autos.slice(0, Math.max(0, autos.length - MAX_AUTO_CHECKPOINTS));
+      return { ...s, checkpoints: checkpoints.filter(cp => !dropped.includes(cp)) };
+    });
+    await Promise.all(dropped.map(cp => this.checkpointScene(cp.id).delete()));
+    return checkpoint;
+  }
+  async listCheckpoints(): Promise<CheckpointList> {
+    const state = await this.migrateLegacyLog();
+    const ops = await this.getOpsAfterSnapshot(state);
+    const compactedSeq = state.compactedSeq ?? 0;
+    const checkpoints = state.checkpoints ?? [];
+    // Every seq from the oldest checkpoint whose following ops are still stored onwards can be rebuilt
+    const bases = checkpoints.map(cp => cp.seq).filter(seq => seq >= compactedSeq);
+    return { checkpoints, minSeq: Math.min(state.opVersion, ...bases), maxSeq: state.opVersion + ops.length };
+  }
+  async getCheckpoint(checkpointId: string): Promise<{ checkpoint: Checkpoint; elements: DrawingElement[] } | null> {
+    const { checkpoints = [] } = await this.getState();
+    const checkpoint = checkpoints.find(cp => cp.id === checkpointId);
+    if (!checkpoint) return null;
+    const { elements } = await this.checkpointScene(checkpoint.id).getState();
+    return { checkpoint, elements };
+  }
+  // The scene right after op `seq`, replayed from the closest snapshot or checkpoint before it; null if the ops needed are gone
+  async getSceneAt(seq: number): Promise<HistoryScene | null> {
+    const state = await this.migrateLegacyLog();
+    if (seq >= state.opVersion) {
+      const ops = await this.getOpsAfterSnapshot(state);
+      if (seq > state.opVersion + ops.length) return null;
+      return { seq, elements: applyOpsToElements(ops.slice(0, seq - state.opVersion), state.elements) };
+    }
+    const compactedSeq = state.compactedSeq ?? 0;
+    const base = (state.checkpoints ?? [])
+      .filter(cp => cp.seq === seq || (cp.seq < seq && cp.seq >= compactedSeq))
+      .reduce<Checkpoint | null>((best, cp) => (!best || cp.seq > best.seq ? cp : best), null);
+    if (!base) return null;
+    const { elements } = await this.checkpointScene(base.id).getState();
+    const ops = (await this.loadChunks(base.seq)).flatMap(c => c.ops).filter(op => op.seq! > base.seq && op.seq! <= seq);
+    if (ops.length !== seq - base.seq) return null;
+    return { seq, elements: applyOpsToElements(ops, elements) };
+  }
+  async getOpsSince(version: number): Promise<OpsSince> {
+    const state = await this.migrateLegacyLog();
+    if (version < (state.compactedSeq ?? 0)) return { ops: [], reload: true };
+    const chunks = await this.loadChunks(version);
+    return { ops: chunks.flatMap(c => c.ops).filter(op => op.seq! > version), reload: false };
+  }
+  override async delete(): Promise<boolean> {
+    const { compactedSeq = 0, checkpoints = [] } = await this.getState();
+    const chunks = await this.loadChunks(compactedSeq);
+    await Promise.all(chunks.map(c => this.chunk(c.index).delete()));
+    await Promise.all(checkpoints.map(cp => this.checkpointScene(cp.id).delete()));
+    return super.delete();
   }
   async updatePresence(presence: Presence): Promise<void> {
     for (let attempt = 0; attempt < 3; attempt++) {
@@ -143,4 +306,45 @@ export class DrawingEntity extends IndexedEntity<Drawing> {
     const now = Date.now();
     return (state.presences || []).filter(p => now - p.lastSeen < 30000);
   }
+  async setMemberRole(userId: string, role: Role | null): Promise<void> {
+    await this.mutate(s => {
+      const access = { ...s.access };
+      if (role) access[userId] = role;
+      else delete access[userId];
+      return { ...s, access };
+    });
+  }
+  async createShareLink(role: Role): Promise<ShareLink> {
+    // 192 random bits: links are the only credential needed to join
+    const token = Array.from(crypto.getRandomValues(new Uint8Array(24)), b => b.toString(16).padStart(2, '0')).join('');
+    const link: ShareLink = { token, role, createdAt: Date.now() };
+    await this.mutate(s => ({ ...s, shareLinks: [...(s.shareLinks ?? []), link] }));
+    return link;
+  }
+  async revokeShareLink(token: string): Promise<boolean> {
+    let revoked = false;
+    await this.mutate(s => {
+      const shareLinks = (s.shareLinks ?? []).filter(link => link.token !== token);
+      revoked = shareLinks.length !== (s.shareLinks ?? []).length;
+      return { ...s, shareLinks };
+    });
+    return revoked;
+  }
+  // Grants the link's role to the user, never lowering a role they already have; null for unknown tokens
+  async redeemShareLink(token: string, userId: string): Promise<Role | null> {
+    let granted: Role | null = null;
+    await this.mutate(s => {
+      const link = (s.shareLinks ?? []).find(l => l.token === token);
+      granted = null;
+      if (!link) return s;
+      if (s.ownerId === userId) {
+        granted = 'owner';
+        return s;
+      }
+      const current = s.access?.[userId];
+      granted = hasRole(current, link.role) ? current! : link.role;
+      return { ...s, access: { ...s.access, [userId]: granted } };
+    });
+    return granted;
+  }
 }
\ No newline at end of file
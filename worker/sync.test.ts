@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import type { DrawingElement, Op, PointBinding } from '@shared/types';
+import { applyOpsToElements } from '@shared/reducer';
+import { stampLocalOps } from '../src/lib/drawing';
+import { acknowledgeAppend, createSyncState, loadSnapshotState, mergeSequencedOps, queueLocalOps, type MergeResult, type SyncState } from '../src/lib/sync';
+import { DrawingEntity } from './entities';
+import { createTestEnv } from './test-env';
+
+// --- Scene & Ops ---
+const rect = (id: string, index: string, x = 0, y = 0): DrawingElement => ({
+  id, type: 'rectangle', x, y, width: 40, height: 30, angle: 0, strokeColor: '#1e1e1e', strokeWidth: 2, opacity: 1, fillColor: 'transparent', strokeStyle: 'solid', index,
+});
+const bind = (elementId: string, x: number): PointBinding => ({ elementId, focus: { x, y: 0.5 } });
+const BASE: DrawingElement[] = [
+  rect('r0', 'a0'),
+  rect('r1', 'a1', 120, 40),
+  rect('r2', 'a2', 0, 120),
+  {
+    id: 'arrow', type: 'arrow', x: 40, y: 15, width: 80, height: 40, angle: 0, strokeColor: '#1e1e1e', strokeWidth: 2, opacity: 1, index: 'a3',
+    points: [{ x: 0, y: 0 }, { x: 80, y: 40 }], startArrowhead: 'none', endArrowhead: 'triangle', startBinding: bind('r0', 1), endBinding: bind('r1', 0),
+  },
+  {
+    id: 'loose', type: 'arrow', x: 40, y: 135, width: 100, height: 60, angle: 0, strokeColor: '#1e1e1e', strokeWidth: 2, opacity: 1, index: 'a4',
+    points: [{ x: 0, y: 0 }, { x: 50, y: 60 }, { x: 100, y: 30 }], startBinding: bind('r2', 1), endBinding: null,
+  },
+];
+const ARROWS = ['arrow', 'loose'];
+const KEYS = ['a0', 'a05', 'a1', 'a15', 'a2', 'a3', 'a4', 'Z'];
+// Op bodies without id, ts or stamp; replicas fill those in as they "make" the edit
+type OpBody = Pick<Op, 'type' | 'elementId' | 'data'> & { ops?: OpBody[] };
+const coordArb = fc.integer({ min: -200, max: 200 });
+// Moves, restyles and reorders anything; `null` removes an optional property, as undo does
+const updateArb = (ids: string[]) => fc.record({
+  type: fc.constant('update' as const),
+  elementId: fc.constantFrom(...ids),
+  data: fc.record({ x: coordArb, y: coordArb, strokeColor: fc.constantFrom('#e03131', '#2f9e44', '#1971c2'), index: fc.constantFrom(...KEYS), roughness: fc.constantFrom(1, 2, null) }, { requiredKeys: [] }),
+});
+// Rebinds, reshapes and restyles an arrow
+const arrowUpdateArb = (ids: string[], arrowIds: string[]) => fc.record({
+  type: fc.constant('update' as const),
+  elementId: fc.constantFrom(...arrowIds),
+  data: fc.record({
+    startBinding: fc.option(fc.constantFrom(...ids).map(id => bind(id, 1))),
+    endBinding: fc.option(fc.constantFrom(...ids).map(id => bind(id, 0))),
+    points: fc.array(fc.record({ x: coordArb, y: coordArb }), { minLength: 2, maxLength: 4 }),
+    endArrowhead: fc.constantFrom('triangle' as const, 'dot' as const, null),
+  }, { requiredKeys: [] }),
+});
+const addArb = (ids: string[]) => fc.record({ type: fc.constant('add' as const), id: fc.constantFrom(...ids), index: fc.constantFrom(...KEYS), x: coordArb })
+  .map(({ type, id, index, x }): OpBody => ({ type, elementId: id, data: rect(id, index, x) }));
+const deleteArb = (ids: string[]) => fc.record({ type: fc.constant('delete' as const), elementId: fc.constantFrom(...ids) });
+// `ids` are what updates and deletes aim at, `newIds` what adds create
+const simpleOpArb = (ids: string[], newIds: string[]): fc.Arbitrary<OpBody> => fc.oneof(
+  { arbitrary: updateArb(ids), weight: 4 },
+  { arbitrary: arrowUpdateArb(ids.filter(id => !ARROWS.includes(id)), ARROWS), weight: 2 },
+  { arbitrary: addArb(newIds), weight: 2 },
+  { arbitrary: deleteArb(ids), weight: 1 },
+);
+const opBodyArb = (ids: string[], newIds = ids): fc.Arbitrary<OpBody> => fc.oneof(
+  { arbitrary: simpleOpArb(ids, newIds), weight: 4 },
+  { arbitrary: fc.array(simpleOpArb(ids, newIds), { minLength: 1, maxLength: 3 }).map((ops): OpBody => ({ type: 'batch', ops })), weight: 1 },
+);
+// Gives an op body and its nested ones their ids; stamping comes after
+function makeOp(body: OpBody, nextId: () => string): Op {
+  const { ops, ...rest } = body;
+  return { ...rest, id: nextId(), ts: 0, ...(ops ? { ops: ops.map(inner => makeOp(inner, nextId)) } : {}) };
+}
+// Stamps an op and its nested ops the way stampOp does, one Lamport tick each, for a replica with its own clock
+function stampWith(replicaId: string, tick: () => number): (op: Op) => Op {
+  const stamp = (op: Op): Op => {
+    const stamped: Op = { ...op, stamp: { clock: tick(), replicaId } };
+    if (op.ops) stamped.ops = op.ops.map(stamp);
+    return stamped;
+  };
+  return stamp;
+}
+// Everything between a replica and the worker travels as JSON
+const overTheWire = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// --- Replicas ---
+// A drawing that snapshots and compacts every few ops, so short runs cross those boundaries too
+class SmallDrawingEntity extends DrawingEntity {
+  static override opsPerChunk = 3;
+  static override snapshotInterval = 5;
+}
+// A client the way useDraw drives the sync helpers: saves send the ops not yet sent, polls fetch the ops since lastSeq
+// or a fresh snapshot once those are compacted away. Its Lamport clock stands in for the one in src/lib/drawing.ts.
+class Replica {
+  state: SyncState = createSyncState(0, BASE);
+  private clock = 0;
+  private count = 0;
+  private readonly stamp: (op: Op) => Op;
+  constructor(readonly replicaId: string) {
+    this.stamp = stampWith(replicaId, () => ++this.clock);
+  }
+  edit(body: OpBody) {
+    const op = makeOp(body, () => `${this.replicaId}-${++this.count}`);
+    this.state = queueLocalOps(this.state, stampLocalOps([op], this.state.committed, this.stamp));
+  }
+  async save(drawing: DrawingEntity): Promise<Op[]> {
+    const pending = this.state.local.filter(op => !this.state.sent.has(op.id));
+    if (pending.length === 0) return [];
+    const result = overTheWire(await drawing.appendOps(overTheWire(pending)));
+    this.state = this.observe(acknowledgeAppend(this.state, result));
+    return pending.map(op => ({ ...op, seq: result.seqs[op.id] }));
+  }
+  async poll(drawing: DrawingEntity) {
+    const since = overTheWire(await drawing.getOpsSince(this.state.lastSeq));
+    if (!since.reload) this.state = this.observe(mergeSequencedOps(this.state, since.ops));
+    else this.state = loadSnapshotState(this.state, overTheWire(await drawing.getSnapshot()));
+  }
+  private observe({ state, accepted }: MergeResult): SyncState {
+    const observe = (op: Op) => { this.clock = Math.max(this.clock, op.stamp?.clock ?? 0); op.ops?.forEach(observe); };
+    accepted.forEach(observe);
+    return state;
+  }
+}
+
+// --- Properties ---
+const REPLICAS = ['A', 'B', 'C'];
+const IDS = ['r0', 'r1', 'r2', ...ARROWS, 'n0', 'n1', 'n2'];
+const stepArb = fc.oneof(
+  { arbitrary: fc.record({ kind: fc.constant('edit' as const), client: fc.nat({ max: REPLICAS.length - 1 }), body: opBodyArb(IDS) }), weight: 4 },
+  { arbitrary: fc.record({ kind: fc.constantFrom('save' as const, 'poll' as const), client: fc.nat({ max: REPLICAS.length - 1 }) }), weight: 2 },
+);
+// Merges per-replica op lists into one sequence, keeping each replica's own order; `picks` chooses who goes next
+function interleave<T>(lists: T[][], picks: number[]): T[] {
+  const queues = lists.map(list => [...list]);
+  const merged: T[] = [];
+  for (let i = 0; queues.some(q => q.length > 0); i++) {
+    const open = queues.filter(q => q.length > 0);
+    merged.push(open[(picks[i] ?? 0) % open.length].shift()!);
+  }
+  return merged;
+}
+
+describe('sync convergence', () => {
+  it('brings every client and the worker to the same scene', async () => {
+    let run = 0;
+    await fc.assert(fc.asyncProperty(fc.array(stepArb, { maxLength: 40 }), async steps => {
+      const drawing = new SmallDrawingEntity(createTestEnv(), `drawing-${++run}`);
+      await drawing.save({ ...DrawingEntity.initialState, id: drawing.id, elements: BASE });
+      const clients = REPLICAS.map(id => new Replica(id));
+      // Every op the worker stored, by seq, for folding the whole log from scratch
+      const log = new Map<number, Op>();
+      const save = async (client: Replica) => (await client.save(drawing)).forEach(op => { if (!log.has(op.seq!)) log.set(op.seq!, op); });
+      for (const step of steps) {
+        const client = clients[step.client];
+        if (step.kind === 'edit') client.edit(step.body);
+        else if (step.kind === 'save') await save(client);
+        else await client.poll(drawing);
+        // The incrementally maintained scene matches a fold from scratch at every step
+        expect(client.state.committed).toEqual(applyOpsToElements(client.state.local, client.state.confirmed));
+      }
+      for (const client of clients) await save(client);
+      for (const client of clients) await client.poll(drawing);
+      const snapshot = await drawing.getSnapshot();
+      const ordered = [...log.keys()].sort((a, b) => a - b).map(seq => log.get(seq)!);
+      expect(snapshot.opVersion).toBe(ordered.length);
+      expect(snapshot.elements).toEqual(applyOpsToElements(ordered, BASE));
+      for (const client of clients) {
+        expect(client.state.local).toEqual([]);
+        expect(client.state.lastSeq).toBe(snapshot.opVersion);
+        expect(client.state.committed).toEqual(snapshot.elements);
+      }
+    }), { numRuns: 100 });
+  });
+
+  it('folds a log the same way whichever snapshot it is split at', () => {
+    fc.assert(fc.property(fc.array(opBodyArb(IDS), { maxLength: 40 }), fc.nat(), (bodies, at) => {
+      let count = 0;
+      let clock = 0;
+      const stamp = stampWith('A', () => ++clock);
+      const ops = overTheWire(bodies.map(body => stamp(makeOp(body, () => `op-${++count}`))));
+      const split = at % (ops.length + 1);
+      expect(applyOpsToElements(ops.slice(split), applyOpsToElements(ops.slice(0, split), BASE))).toEqual(applyOpsToElements(ops, BASE));
+    }), { numRuns: 200 });
+  });
+
+  it('resolves concurrent edits to the same scene in any delivery order', () => {
+    // Each replica only adds its own shapes and only touches the shared ones and its own, as a replica that hasn't seen
+    // the others' edits would
+    const replicaOps = (replicaId: string) => fc.array(opBodyArb(['r0', 'r1', 'r2', ...ARROWS, `${replicaId}-new`], [`${replicaId}-new`]), { maxLength: 12 }).map(bodies => {
+      let clock = 0;
+      let count = 0;
+      const stamp = stampWith(replicaId, () => ++clock);
+      // Made on the replica's own view, arrow follow-ups included
+      let elements = BASE;
+      return overTheWire(bodies.flatMap(body => {
+        const ops = stampLocalOps([makeOp(body, () => `${replicaId}-${++count}`)], elements, stamp);
+        elements = applyOpsToElements(ops, elements);
+        return ops;
+      }));
+    });
+    fc.assert(fc.property(fc.tuple(...REPLICAS.map(replicaOps)), fc.array(fc.nat()), fc.array(fc.nat()), (lists, picksA, picksB) => {
+      expect(applyOpsToElements(interleave(lists, picksA), BASE)).toEqual(applyOpsToElements(interleave(lists, picksB), BASE));
+    }), { numRuns: 300 });
+  });
+});
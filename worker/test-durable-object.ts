@@ -0,0 +1,5 @@
+// Stands in for `cloudflare:workers` under Vitest (see vitest.config.ts): GlobalDurableObject only needs the base
+// class to keep `ctx` and `env`, which test-env.ts backs with in-memory storage
+export class DurableObject<Env = unknown> {
+  constructor(public ctx: DurableObjectState, public env: Env) {}
+}
@@ -0,0 +1,38 @@
+import { GlobalDurableObject, type Env } from './core-utils';
+// An Env for running entities in tests: one real GlobalDurableObject per name, each on its own in-memory storage.
+// Values are cloned on the way in and out, as Durable Object storage and RPC do.
+function createMemoryStorage() {
+  const data = new Map<string, unknown>();
+  const storage = {
+    async get<T>(key: string): Promise<T | undefined> {
+      return data.has(key) ? structuredClone(data.get(key)) as T : undefined;
+    },
+    async put(key: string, value: unknown): Promise<void> {
+      data.set(key, structuredClone(value));
+    },
+    async delete(key: string): Promise<boolean> {
+      return data.delete(key);
+    },
+    async deleteAll(): Promise<void> {
+      data.clear();
+    },
+    async list(options: { prefix?: string; startAfter?: string; limit?: number } = {}): Promise<Map<string, unknown>> {
+      const keys = [...data.keys()].filter(key => key.startsWith(options.prefix ?? '') && (!options.startAfter || key > options.startAfter)).sort();
+      return new Map(keys.slice(0, options.limit ?? keys.length).map(key => [key, structuredClone(data.get(key))]));
+    },
+  };
+  // Calls never interleave in a test, so a transaction is just the same storage
+  return { ...storage, transaction: async <T>(run: (txn: typeof storage) => Promise<T>): Promise<T> => run(storage) };
+}
+export function createTestEnv(): Env {
+  const objects = new Map<string, GlobalDurableObject>();
+  const namespace = {
+    idFromName: (name: string) => name,
+    get: (name: string) => {
+      if (!objects.has(name)) objects.set(name, new GlobalDurableObject({ storage: createMemoryStorage() } as unknown as DurableObjectState, env));
+      return objects.get(name)!;
+    },
+  };
+  const env = { GlobalDurableObject: namespace } as unknown as Env;
+  return env;
+}
@@ -1,35 +1,41 @@
 import { Hono } from "hono";
 import type { Env } from './core-utils';
-import { UserEntity, ChatBoardEntity, DrawingEntity } from "./entities";
-import { ok, bad, notFound, isStr } from './core-utils';
-import type { Drawing, Op, Presence, DrawingElement, Viewport } from "@shared/types";
+import { UserEntity, ChatBoardEntity, DrawingEntity, CredentialEntity } from "./entities";
+import { ok } from './core-utils';
+import type { AuthSession, Drawing, DrawingAccessList } from "@shared/types";
+import { getCurrentUser, getRole, toClientDrawing, authorizeDrawing } from "./access";
+import { authenticate, hashPassword, verifyPassword, createSessionToken, PASSWORD_ITERATIONS } from "./auth";
+import {
+  bad, notFound, unauthorized, forbidden, conflict, parseBody, parseQuery, takeInvalidOps,
+  ListQuerySchema, IdsBodySchema, CreateChatBodySchema, SendMessageBodySchema, SignUpBodySchema, LoginBodySchema,
+  CreateDrawingBodySchema, PatchDrawingBodySchema, AppendOpsBodySchema, OpsSinceQuerySchema, HistoryQuerySchema, CheckpointBodySchema,
+  ShareRoleBodySchema, PresenceBodySchema, AiChatBodySchema,
+} from "./validation";
 export function userRoutes(app: Hono<{ Bindings: Env }>) {
+  app.use('/api/*', authenticate);
   app.get('/api/test', (c) => c.json({ success: true, data: { name: 'CF Workers Demo' }}));
   // USERS
   app.get('/api/users', async (c) => {
+    if (!getCurrentUser(c)) return unauthorized(c, 'user required');
+    const query = parseQuery(c, ListQuerySchema);
+    if (query instanceof Response) return query;
     await UserEntity.ensureSeed(c.env);
-    const cq = c.req.query('cursor');
-    const lq = c.req.query('limit');
-    const page = await UserEntity.list(c.env, cq ?? null, lq ? Math.max(1, (Number(lq) | 0)) : undefined);
-    return ok(c, page);
-  });
-  app.post('/api/users', async (c) => {
-    const { name } = (await c.req.json()) as { name?: string };
-    if (!name?.trim()) return bad(c, 'name required');
-    return ok(c, await UserEntity.create(c.env, { id: crypto.randomUUID(), name: name.trim() }));
+    const page = await UserEntity.list(c.env, query.cursor ?? null, query.limit);
+    // Usernames are login names, so listings only carry display names
+    return ok(c, { ...page, items: page.items.map(({ id, name }) => ({ id, name })) });
   });
   // CHATS
   app.get('/api/chats', async (c) => {
+    const query = parseQuery(c, ListQuerySchema);
+    if (query instanceof Response) return query;
     await ChatBoardEntity.ensureSeed(c.env);
-    const cq = c.req.query('cursor');
-    const lq = c.req.query('limit');
-    const page = await ChatBoardEntity.list(c.env, cq ?? null, lq ? Math.max(1, (Number(lq) | 0)) : undefined);
+    const page = await ChatBoardEntity.list(c.env, query.cursor ?? null, query.limit);
     return ok(c, page);
   });
   app.post('/api/chats', async (c) => {
-    const { title } = (await c.req.json()) as { title?: string };
-    if (!title?.trim()) return bad(c, 'title required');
-    const created = await ChatBoardEntity.create(c.env, { id: crypto.randomUUID(), title: title.trim(), messages: [] });
+    const body = await parseBody(c, CreateChatBodySchema);
+    if (body instanceof Response) return body;
+    const created = await ChatBoardEntity.create(c.env, { id: crypto.randomUUID(), title: body.title, messages: [] });
     return ok(c, { id: created.id, title: created.title });
   });
   // MESSAGES
@@ -39,15 +45,48 @@ export function userRoutes(app: Hono<{ Bindings: Env }>) {
     return ok(c, await chat.listMessages());
   });
   app.post('/api/chats/:chatId/messages', async (c) => {
-    const chatId = c.req.param('chatId');
-    const { userId, text } = (await c.req.json()) as { userId?: string; text?: string };
-    if (!isStr(userId) || !text?.trim()) return bad(c, 'userId and text required');
-    const chat = new ChatBoardEntity(c.env, chatId);
+    const body = await parseBody(c, SendMessageBodySchema);
+    if (body instanceof Response) return body;
+    const chat = new ChatBoardEntity(c.env, c.req.param('chatId'));
     if (!await chat.exists()) return notFound(c, 'chat not found');
-    return ok(c, await chat.sendMessage(userId, text.trim()));
+    return ok(c, await chat.sendMessage(body.userId, body.text));
+  });
+  // AUTH
+  app.post('/api/auth/signup', async (c) => {
+    const body = await parseBody(c, SignUpBodySchema);
+    if (body instanceof Response) return body;
+    const { username, password, name } = body;
+    const userId = crypto.randomUUID();
+    const salt = crypto.randomUUID();
+    const claimed = await new CredentialEntity(c.env, username).claim({ userId, salt, hash: await hashPassword(password, salt), iterations: PASSWORD_ITERATIONS });
+    if (!claimed) return conflict(c, 'username taken');
+    const user = await UserEntity.create(c.env, { id: userId, name: name || username, username });
+    return ok(c, { ...(await createSessionToken(c.env, user.id)), user } satisfies AuthSession);
+  });
+  app.post('/api/auth/login', async (c) => {
+    const body = await parseBody(c, LoginBodySchema);
+    if (body instanceof Response) return body;
+    const { username, password } = body;
+    const credential = new CredentialEntity(c.env, username);
+    // Same answer, and the same hashing work, for unknown users and wrong passwords so usernames can't be probed
+    if (!(await credential.exists())) {
+      await hashPassword(password, crypto.randomUUID());
+      return unauthorized(c, 'invalid username or password');
+    }
+    const stored = await credential.getState();
+    if (!(await verifyPassword(password, stored))) return unauthorized(c, 'invalid username or password');
+    const user = new UserEntity(c.env, stored.userId);
+    if (!(await user.exists())) return unauthorized(c, 'invalid username or password');
+    return ok(c, { ...(await createSessionToken(c.env, user.id)), user: await user.getState() } satisfies AuthSession);
+  });
+  app.get('/api/me', (c) => {
+    const user = getCurrentUser(c);
+    return user ? ok(c, user) : unauthorized(c, 'user required');
   });
   // DRAWINGS
   app.get('/api/drawings', async (c) => {
+    const user = getCurrentUser(c);
+    if (!user) return unauthorized(c, 'user required');
     try {
       await DrawingEntity.ensureSeed(c.env);
     } catch (err) {
@@ -55,10 +94,19 @@ export function userRoutes(app: Hono<{ Bindings: Env }>) {
     }
     const raw = await DrawingEntity.list(c.env);
     const page = Array.isArray(raw) ? { items: raw } : (raw ?? { items: [] });
-    return ok(c, page);
+    // Stored states lag the log by up to a snapshot interval, so each listed drawing is read as its current scene
+    const items = await Promise.all(page.items.flatMap(d => {
+      const role = getRole(d, user.id);
+      return role ? [new DrawingEntity(c.env, d.id).getSnapshot().then(current => toClientDrawing(current, role))] : [];
+    }));
+    return ok(c, { ...page, items });
   });
   app.post('/api/drawings', async (c) => {
-    const { title, elements } = (await c.req.json<{ title?: string, elements?: DrawingElement[] }>()) ?? {};
+    const user = getCurrentUser(c);
+    if (!user) return unauthorized(c, 'user required');
+    const body = await parseBody(c, CreateDrawingBodySchema);
+    if (body instanceof Response) return body;
+    const { title, elements } = body ?? {};
     const newDrawing: Drawing = {
       id: crypto.randomUUID(),
       title: title || 'Untitled Drawing',
@@ -67,68 +115,144 @@ export function userRoutes(app: Hono<{ Bindings: Env }>) {
       ops: [],
       opVersion: 0,
       presences: [],
+      ownerId: user.id,
+      access: {},
+      shareLinks: [],
     };
     const created = await DrawingEntity.create(c.env, newDrawing);
-    return ok(c, created);
+    return ok(c, toClientDrawing(created, 'owner'));
   });
   app.get('/api/drawings/:id', async (c) => {
-    const id = c.req.param('id');
-    const drawing = new DrawingEntity(c.env, id);
-    if (!(await drawing.exists())) return notFound(c, 'drawing not found');
-    return ok(c, await drawing.getState());
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'viewer');
+    if (auth instanceof Response) return auth;
+    return ok(c, toClientDrawing(await auth.entity.getSnapshot(), auth.role));
   });
   app.post('/api/drawings/:id/patch', async (c) => {
     const id = c.req.param('id');
-    const patch = (await c.req.json<Partial<Drawing>>());
-    const drawing = new DrawingEntity(c.env, id);
-    if (!(await drawing.exists())) return notFound(c, 'drawing not found');
-    await drawing.patch({ ...patch, updatedAt: Date.now() });
+    const auth = await authorizeDrawing(c, id, 'editor');
+    if (auth instanceof Response) return auth;
+    const body = await parseBody(c, PatchDrawingBodySchema);
+    if (body instanceof Response) return body;
+    await auth.entity.patch({ title: body.title, updatedAt: Date.now() });
     return ok(c, { id, patched: true });
   });
   app.delete('/api/drawings/:id', async (c) => {
     const id = c.req.param('id');
+    const auth = await authorizeDrawing(c, id, 'owner');
+    if (auth instanceof Response) return auth;
     const deleted = await DrawingEntity.delete(c.env, id);
     return ok(c, { id, deleted });
   });
   // DRAWING OPERATIONS & COLLABORATION
   app.post('/api/drawings/:id/ops', async (c) => {
-    const id = c.req.param('id');
-    const ops = await c.req.json<Op[]>();
-    if (!Array.isArray(ops)) return bad(c, 'ops array required');
-    const entity = new DrawingEntity(c.env, id);
-    if (!(await entity.exists())) return notFound(c, 'drawing not found');
-    await entity.appendOps(ops);
-    return ok(c, { appended: ops.length });
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'editor');
+    if (auth instanceof Response) return auth;
+    const ops = await parseBody(c, AppendOpsBodySchema);
+    if (ops instanceof Response) return ops;
+    const { accepted, dropped } = takeInvalidOps(ops);
+    const result = await auth.entity.appendOps(accepted);
+    return ok(c, { ...result, rejected: [...result.rejected, ...dropped] });
   });
   app.get('/api/drawings/:id/ops', async (c) => {
-    const id = c.req.param('id');
-    const since = Number(c.req.query('since')) || 0;
-    const entity = new DrawingEntity(c.env, id);
-    if (!(await entity.exists())) return notFound(c, 'drawing not found');
-    const ops = await entity.getOpsSince(since);
-    return ok(c, ops);
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'viewer');
+    if (auth instanceof Response) return auth;
+    const query = parseQuery(c, OpsSinceQuerySchema);
+    if (query instanceof Response) return query;
+    return ok(c, await auth.entity.getOpsSince(query.since));
+  });
+  // VERSION HISTORY
+  app.get('/api/drawings/:id/checkpoints', async (c) => {
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'viewer');
+    if (auth instanceof Response) return auth;
+    return ok(c, await auth.entity.listCheckpoints());
+  });
+  app.post('/api/drawings/:id/checkpoints', async (c) => {
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'editor');
+    if (auth instanceof Response) return auth;
+    const body = await parseBody(c, CheckpointBodySchema);
+    if (body instanceof Response) return body;
+    return ok(c, await auth.entity.createCheckpoint(body.name));
+  });
+  app.get('/api/drawings/:id/checkpoints/:checkpointId', async (c) => {
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'viewer');
+    if (auth instanceof Response) return auth;
+    const found = await auth.entity.getCheckpoint(c.req.param('checkpointId'));
+    return found ? ok(c, found) : notFound(c, 'checkpoint not found');
+  });
+  app.get('/api/drawings/:id/history', async (c) => {
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'viewer');
+    if (auth instanceof Response) return auth;
+    const query = parseQuery(c, HistoryQuerySchema);
+    if (query instanceof Response) return query;
+    const scene = await auth.entity.getSceneAt(query.seq);
+    return scene ? ok(c, scene) : notFound(c, 'history not available at that seq');
+  });
+  // SHARING
+  app.get('/api/drawings/:id/access', async (c) => {
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'owner');
+    if (auth instanceof Response) return auth;
+    const { access = {}, shareLinks = [] } = auth.drawing;
+    const members = await Promise.all(Object.entries(access).map(async ([userId, role]) => {
+      const member = new UserEntity(c.env, userId);
+      const name = (await member.exists()) ? (await member.getState()).name : userId;
+      return { userId, name, role };
+    }));
+    return ok(c, { members: [{ userId: auth.user.id, name: auth.user.name, role: 'owner' }, ...members], links: shareLinks } as DrawingAccessList);
+  });
+  app.put('/api/drawings/:id/access/:userId', async (c) => {
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'owner');
+    if (auth instanceof Response) return auth;
+    const body = await parseBody(c, ShareRoleBodySchema);
+    if (body instanceof Response) return body;
+    await auth.entity.setMemberRole(c.req.param('userId'), body.role);
+    return ok(c, { userId: c.req.param('userId'), role: body.role });
+  });
+  app.delete('/api/drawings/:id/access/:userId', async (c) => {
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'owner');
+    if (auth instanceof Response) return auth;
+    await auth.entity.setMemberRole(c.req.param('userId'), null);
+    return ok(c, { userId: c.req.param('userId'), removed: true });
+  });
+  app.post('/api/drawings/:id/share-links', async (c) => {
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'owner');
+    if (auth instanceof Response) return auth;
+    const body = await parseBody(c, ShareRoleBodySchema);
+    if (body instanceof Response) return body;
+    return ok(c, await auth.entity.createShareLink(body.role));
+  });
+  app.delete('/api/drawings/:id/share-links/:token', async (c) => {
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'owner');
+    if (auth instanceof Response) return auth;
+    const revoked = await auth.entity.revokeShareLink(c.req.param('token'));
+    return revoked ? ok(c, { token: c.req.param('token'), revoked }) : notFound(c, 'share link not found');
+  });
+  // Joining through a link needs no role yet, only a valid token
+  app.post('/api/drawings/:id/share-links/:token/redeem', async (c) => {
+    const user = getCurrentUser(c);
+    if (!user) return unauthorized(c, 'user required');
+    const entity = new DrawingEntity(c.env, c.req.param('id'));
+    const role = (await entity.exists()) ? await entity.redeemShareLink(c.req.param('token'), user.id) : null;
+    return role ? ok(c, { id: entity.id, role }) : notFound(c, 'share link not found');
   });
   app.post('/api/drawings/:id/presence', async (c) => {
-    const id = c.req.param('id');
-    const presenceData = await c.req.json<Presence>();
-    if (!presenceData || !presenceData.userId) return bad(c, 'userId required');
-    const entity = new DrawingEntity(c.env, id);
-    if (!(await entity.exists())) return notFound(c, 'drawing not found');
-    await entity.updatePresence(presenceData);
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'viewer');
+    if (auth instanceof Response) return auth;
+    const body = await parseBody(c, PresenceBodySchema);
+    if (body instanceof Response) return body;
+    await auth.entity.updatePresence({ cursor: body.cursor, userId: auth.user.id, name: auth.user.name, lastSeen: Date.now() });
     return ok(c, { updated: true });
   });
   app.get('/api/drawings/:id/presence', async (c) => {
-    const id = c.req.param('id');
-    const entity = new DrawingEntity(c.env, id);
-    if (!(await entity.exists())) return notFound(c, 'drawing not found');
-    const presences = await entity.getPresences();
-    return ok(c, presences);
+    const auth = await authorizeDrawing(c, c.req.param('id'), 'viewer');
+    if (auth instanceof Response) return auth;
+    return ok(c, await auth.entity.getPresences());
   });
   // MOCK AI CHAT
   app.post('/api/ai-chat', async (c) => {
+    const body = await parseBody(c, AiChatBodySchema);
+    if (body instanceof Response) return body;
     try {
-      const { message, context } = await c.req.json<{ message: string; context: { elements: DrawingElement[] } }>();
-      if (!message) return bad(c, 'Message is required.');
+      const { message, context } = body;
       const lowerMessage = message.toLowerCase();
       let response = "I'm not sure how to help with that. Try asking about tools or how to get started!";
       const suggestions = ['Try the Pen tool', 'How do I change colors?', 'What are templates?'];
@@ -149,6 +273,8 @@ export function userRoutes(app: Hono<{ Bindings: Env }>) {
   });
   // TEMPLATES
   app.get('/api/templates', async (c) => {
+    const user = getCurrentUser(c);
+    if (!user) return unauthorized(c, 'user required');
     try {
       await DrawingEntity.ensureSeed(c.env);
     } catch (err) {
@@ -156,23 +282,29 @@ export function userRoutes(app: Hono<{ Bindings: Env }>) {
     }
     const raw = await DrawingEntity.list(c.env);
     const items = Array.isArray(raw) ? raw : (raw?.items ?? []);
-    const templates = items.filter(d => (d?.title ?? '').toLowerCase().includes('template') || d?.id === 'd1');
-    return ok(c, templates);
+    const templates = items.filter(d => ((d?.title ?? '').toLowerCase().includes('template') || d?.id === 'd1') && getRole(d, user.id));
+    const scenes = await Promise.all(templates.map(d => new DrawingEntity(c.env, d.id).getSnapshot()));
+    return ok(c, scenes.map(({ id, title, elements }) => ({ id, title, elements })));
   });
   // DELETE: Users
-  app.delete('/api/users/:id', async (c) => ok(c, { id: c.req.param('id'), deleted: await UserEntity.delete(c.env, c.req.param('id')) }));
-  app.post('/api/users/deleteMany', async (c) => {
-    const { ids } = (await c.req.json()) as { ids?: string[] };
-    const list = ids?.filter(isStr) ?? [];
-    if (list.length === 0) return bad(c, 'ids required');
-    return ok(c, { deletedCount: await UserEntity.deleteMany(c.env, list), ids: list });
+  app.delete('/api/users/:id', async (c) => {
+    const user = getCurrentUser(c);
+    if (!user) return unauthorized(c, 'user required');
+    const id = c.req.param('id');
+    if (id !== user.id) return forbidden(c, 'can only delete your own account');
+    // Frees the username too; a credential left behind would block sign-up under that name forever
+    if (user.username) {
+      const credential = new CredentialEntity(c.env, user.username);
+      if ((await credential.getState()).userId === id) await credential.delete();
+    }
+    return ok(c, { id, deleted: await UserEntity.delete(c.env, id) });
   });
   // DELETE: Chats
   app.delete('/api/chats/:id', async (c) => ok(c, { id: c.req.param('id'), deleted: await ChatBoardEntity.delete(c.env, c.req.param('id')) }));
   app.post('/api/chats/deleteMany', async (c) => {
-    const { ids } = (await c.req.json()) as { ids?: string[] };
-    const list = ids?.filter(isStr) ?? [];
-    if (list.length === 0) return bad(c, 'ids required');
+    const body = await parseBody(c, IdsBodySchema);
+    if (body instanceof Response) return body;
+    const list = body.ids;
     return ok(c, { deletedCount: await ChatBoardEntity.deleteMany(c.env, list), ids: list });
   });
 }
\ No newline at end of file
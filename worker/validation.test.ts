@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_OP_BYTES } from '@shared/schema';
+import { takeInvalidOps } from './validation';
+
+describe('takeInvalidOps', () => {
+  it('refuses malformed and oversized ops one by one before anything is stored', () => {
+    const valid = { id: 'ok', type: 'update', elementId: 'r0', ts: 1, data: { x: 10, roundness: null } };
+    const { accepted, dropped } = takeInvalidOps([
+      valid,
+      { id: 'bad-data', type: 'update', elementId: 'r0', ts: 1, data: { x: 'left' } },
+      { id: 'bad-type', type: 'rename', ts: 1 },
+      { id: 'no-ts', type: 'delete', elementId: 'r0' },
+      { id: 'short-line', type: 'add', ts: 1, data: { id: 'l', type: 'line', x: 0, y: 0, width: 0, height: 0, angle: 0, strokeColor: '#000', strokeWidth: 1, opacity: 1, points: [{ x: 0, y: 0 }] } },
+      { id: 'huge', type: 'update', elementId: 'r0', ts: 1, data: { strokeColor: 'x'.repeat(MAX_OP_BYTES) } },
+    ]);
+    expect(accepted).toEqual([valid]);
+    expect(dropped.map(r => [r.opId, r.dropped])).toEqual([['bad-data', true], ['bad-type', true], ['no-ts', true], ['short-line', true], ['huge', true]]);
+    expect(dropped.find(r => r.opId === 'huge')!.reason).toContain(`${MAX_OP_BYTES} bytes`);
+  });
+});
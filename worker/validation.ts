@@ -0,0 +1,95 @@
+import type { Context } from "hono";
+import { z } from "zod";
+import type { ApiErrorCode, ApiIssue, ApiResponse, Op, RejectedOp } from "@shared/types";
+import { DrawingElementSchema, OpSchema, PointSchema, MAX_BODY_BYTES, MAX_OPS_PER_REQUEST, MAX_OP_BYTES } from "@shared/schema";
+import { SHARE_ROLES } from "@shared/access";
+// --- Error Envelopes ---
+// Same shape as core-utils' `bad` and `notFound`, plus a `code` clients can branch on
+type ErrorStatus = 400 | 401 | 403 | 404 | 409 | 413;
+const fail = (c: Context, status: ErrorStatus, code: ApiErrorCode, error: string, issues?: ApiIssue[]) => c.json({ success: false, error, code, issues } as ApiResponse, status);
+export const bad = (c: Context, error: string, issues?: ApiIssue[]) => fail(c, 400, 'validation', error, issues);
+export const unauthorized = (c: Context, error = 'unauthorized') => fail(c, 401, 'unauthorized', error);
+export const forbidden = (c: Context, error = 'forbidden') => fail(c, 403, 'forbidden', error);
+export const notFound = (c: Context, error = 'not found') => fail(c, 404, 'not_found', error);
+export const conflict = (c: Context, error = 'conflict') => fail(c, 409, 'conflict', error);
+export const tooLarge = (c: Context, error = 'payload too large') => fail(c, 413, 'payload_too_large', error);
+// --- Limits ---
+// Body, batch and op sizes are in shared/schema.ts
+export const MAX_ELEMENTS = 10_000;
+const MAX_TITLE_LENGTH = 200;
+const MAX_TEXT_LENGTH = 4000;
+const byteLength = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length;
+// --- Parsing ---
+const toIssues = (error: z.ZodError): ApiIssue[] => error.issues.map(issue => ({ path: issue.path.join('.') || '(root)', message: issue.message }));
+const describe = (issues: ApiIssue[]) => issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+// The request body checked against `schema`, or the 400/413 response to send instead.
+// Malformed JSON is a validation error here rather than an exception that ends up as a 500.
+export async function parseBody<S extends z.ZodType>(c: Context, schema: S): Promise<z.infer<S> | Response> {
+  if (Number(c.req.header('Content-Length')) > MAX_BODY_BYTES) return tooLarge(c, `body exceeds ${MAX_BODY_BYTES} bytes`);
+  const text = await c.req.text();
+  if (text.length > MAX_BODY_BYTES) return tooLarge(c, `body exceeds ${MAX_BODY_BYTES} bytes`);
+  let json: unknown;
+  try {
+    json = text ? JSON.parse(text) : undefined;
+  } catch {
+    return bad(c, 'body is not valid JSON');
+  }
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    const issues = toIssues(parsed.error);
+    return bad(c, describe(issues), issues);
+  }
+  return parsed.data;
+}
+export function parseQuery<S extends z.ZodType>(c: Context, schema: S): z.infer<S> | Response {
+  const parsed = schema.safeParse(c.req.query());
+  if (!parsed.success) {
+    const issues = toIssues(parsed.error);
+    return bad(c, describe(issues), issues);
+  }
+  return parsed.data;
+}
+// --- Schemas ---
+const trimmed = (max: number) => z.string().trim().min(1).max(max);
+export const ListQuerySchema = z.object({ cursor: z.string().optional(), limit: z.coerce.number().int().min(1).max(100).optional() });
+export const IdsBodySchema = z.object({ ids: z.array(z.string().min(1)).min(1).max(100) });
+export const CreateChatBodySchema = z.object({ title: trimmed(MAX_TITLE_LENGTH) });
+export const SendMessageBodySchema = z.object({ userId: z.string().min(1), text: trimmed(MAX_TEXT_LENGTH) });
+export const SignUpBodySchema = z.object({
+  username: z.string().trim().toLowerCase().regex(/^[a-z0-9_.-]{3,32}$/, 'must be 3-32 letters, digits, dots, dashes or underscores'),
+  password: z.string().min(8, 'must be at least 8 characters').max(256),
+  name: z.string().trim().max(MAX_TITLE_LENGTH).optional(),
+});
+export const LoginBodySchema = z.object({ username: z.string().trim().toLowerCase().min(1), password: z.string().min(1).max(256) });
+export const CreateDrawingBodySchema = z.object({
+  title: z.string().trim().max(MAX_TITLE_LENGTH).optional(),
+  elements: z.array(DrawingElementSchema.refine(el => byteLength(el) <= MAX_OP_BYTES, `element exceeds ${MAX_OP_BYTES} bytes`)).max(MAX_ELEMENTS).optional(),
+}).optional();
+// Only the title can be patched; elements change through ops and access through the sharing routes
+export const PatchDrawingBodySchema = z.strictObject({ title: trimmed(MAX_TITLE_LENGTH) });
+// Only the envelope is checked here; `takeInvalidOps` then refuses bad ops one by one, so a single oversized or
+// malformed op can't wedge a client's whole queue behind a 400.
+// The batch limit is the request's own: clients send at most MAX_OPS_PER_REQUEST ops at a time.
+export const AppendOpsBodySchema = z.array(z.looseObject({ id: z.string().min(1) })).max(MAX_OPS_PER_REQUEST);
+// Splits off the ops over MAX_OP_BYTES or not matching OpSchema; they are reported as dropped and never stored,
+// so nothing malformed gets a seq and reaches other clients or snapshots
+export function takeInvalidOps(ops: z.infer<typeof AppendOpsBodySchema>): { accepted: Op[]; dropped: RejectedOp[] } {
+  const accepted: Op[] = [];
+  const dropped: RejectedOp[] = [];
+  for (const op of ops) {
+    if (byteLength(op) > MAX_OP_BYTES) {
+      dropped.push({ opId: op.id, reason: `op exceeds ${MAX_OP_BYTES} bytes`, dropped: true });
+      continue;
+    }
+    const parsed = OpSchema.safeParse(op);
+    if (parsed.success) accepted.push(parsed.data);
+    else dropped.push({ opId: op.id, reason: `invalid op: ${describe(toIssues(parsed.error))}`, dropped: true });
+  }
+  return { accepted, dropped };
+}
+export const OpsSinceQuerySchema = z.object({ since: z.coerce.number().int().min(0).default(0) });
+export const HistoryQuerySchema = z.object({ seq: z.coerce.number().int().min(0) });
+export const CheckpointBodySchema = z.object({ name: trimmed(MAX_TITLE_LENGTH) });
+export const ShareRoleBodySchema = z.object({ role: z.enum(SHARE_ROLES) });
+export const PresenceBodySchema = z.object({ cursor: PointSchema.nullable().optional() });
+export const AiChatBodySchema = z.object({ message: trimmed(MAX_TEXT_LENGTH), context: z.looseObject({ elements: z.array(z.unknown()).default([]) }).default({ elements: [] }) });